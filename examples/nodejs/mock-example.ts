@@ -14,7 +14,7 @@ export async function mockExample() {
   // Create client with configuration
   const client = createLineraClient({
     faucetUrl: 'https://faucet.testnet-conway.linera.net',
-    skipProcessInbox: true,
+    init: { skipProcessInbox: true },
   });
 
   console.log('✓ Client created');
@@ -29,7 +29,7 @@ export async function realExample() {
 
   const client = createLineraClient({
     faucetUrl,
-    skipProcessInbox: true,
+    init: { skipProcessInbox: true },
   });
 
   console.log('✓ Client created');
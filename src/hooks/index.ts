@@ -7,9 +7,20 @@ export { useLineraChain } from './useLineraChain';
 export { useLineraApplication } from './useLineraApplication';
 export { useChainApplication } from './useChainApplication';
 export { useWalletConnection } from './useWalletConnection';
+export { useLineraRecovery } from './useLineraRecovery';
+export { useLineraEvent } from './useLineraEvent';
+export { useLineraDiagnostics } from './useLineraDiagnostics';
+export { usePendingMutations } from './usePendingMutations';
+export { useBalance } from './useBalance';
+export { useTransfer } from './useTransfer';
 
 export type { UseLineraClientReturn } from './useLineraClient';
 export type { UseLineraChainReturn } from './useLineraChain';
 export type { UseLineraApplicationReturn } from './useLineraApplication';
 export type { UseChainApplicationReturn } from './useChainApplication';
 export type { UseWalletConnectionReturn } from './useWalletConnection';
+export type { UseLineraRecoveryReturn, RecoveryStatus } from './useLineraRecovery';
+export type { UseLineraDiagnosticsReturn } from './useLineraDiagnostics';
+export type { UsePendingMutationsReturn } from './usePendingMutations';
+export type { UseBalanceReturn } from './useBalance';
+export type { UseTransferReturn } from './useTransfer';
@@ -0,0 +1,110 @@
+/**
+ * useBalance Hook
+ *
+ * Native token balance of a chain, refreshed on chain notifications
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { Amount } from '../lib/linera/tokens';
+import { getLineraClientManager } from '../lib/linera/client-manager';
+import { useLineraClient } from './useLineraClient';
+import { logger } from '../utils/logger';
+
+export interface UseBalanceReturn {
+  /** Current balance (null until loaded) */
+  balance: Amount | null;
+
+  /** Is loading the balance (first load or manual refresh) */
+  isLoading: boolean;
+
+  /** Error if any */
+  error: Error | null;
+
+  /** The chain ID being read (the wallet chain, else the public chain, when not given) */
+  chainId: string | undefined;
+
+  /** Reload the balance */
+  refresh: () => void;
+}
+
+/**
+ * Hook to read the native token balance of a chain
+ *
+ * The balance is reloaded whenever a new block is added to the chain
+ * (through `subscribe`, which also keeps the chain cached). Only chain
+ * balances are available; owner account balances are not exposed by @linera/client.
+ *
+ * @param chainId - Chain to read (defaults to the wallet chain, else the public chain)
+ *
+ * @example
+ * ```tsx
+ * function Balance() {
+ *   const { balance, isLoading } = useBalance();
+ *
+ *   if (!balance) return <div>{isLoading ? 'Loading...' : '-'}</div>;
+ *   return <div>{balance.toString()} tokens</div>;
+ * }
+ * ```
+ */
+export function useBalance(chainId?: string): UseBalanceReturn {
+  const { isInitialized, isClaimPending, walletChainId, publicChainId } = useLineraClient();
+  const targetChainId = chainId || walletChainId || publicChainId;
+
+  const [balance, setBalance] = useState<Amount | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [refreshCount, setRefreshCount] = useState(0);
+
+  const refresh = useCallback(() => {
+    setRefreshCount((count) => count + 1);
+  }, []);
+
+  useEffect(() => {
+    if (!isInitialized && !isClaimPending) return;
+    if (!targetChainId) return;
+
+    const clientManager = getLineraClientManager();
+    if (!clientManager) return;
+
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const amount = await clientManager.getBalance(targetChainId);
+        if (!cancelled) {
+          setBalance(amount);
+          setError(null);
+        }
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error(String(err));
+        logger.error('[useBalance] Failed to load balance:', error);
+        if (!cancelled) setError(error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    setIsLoading(true);
+    void load();
+
+    // Reload once a new block was added (incoming transfers are received in a block)
+    const unsubscribe = clientManager.subscribe(targetChainId, 'NewBlock', () => {
+      if (!cancelled) void load();
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [targetChainId, isInitialized, isClaimPending, refreshCount]);
+
+  return useMemo(() => ({
+    balance,
+    isLoading,
+    error,
+    chainId: targetChainId,
+    refresh,
+  }), [balance, isLoading, error, targetChainId, refresh]);
+}
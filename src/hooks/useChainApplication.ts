@@ -10,11 +10,17 @@
 import { useState, useEffect, useMemo } from 'react';
 import type { ChainApp } from '../lib/linera/types';
 import { getLineraClientManager } from '../lib/linera';
+import { bindChainAppSignal } from '../lib/linera/application-client';
+import { LineraError, NotInitializedError } from '../lib/linera/errors';
 import { useLineraClient } from './useLineraClient';
 import { logger } from '../utils/logger';
 
 export interface UseChainApplicationReturn {
-  /** Chain application client with WalletApp-like interface */
+  /**
+   * Chain application client with WalletApp-like interface
+   * Its queries and mutations are aborted (AbortError) on unmount, when chainId/appId
+   * changes, and when the wallet or the client changes (the app is then reloaded)
+   */
   app: ChainApp | null;
 
   /** Is application ready */
@@ -76,19 +82,33 @@ export function useChainApplication(
   chainId: string,
   appId: string
 ): UseChainApplicationReturn {
-  const { isInitialized } = useLineraClient();
+  const { isInitialized, isClaimPending, walletAddress, walletChainId, publicClient } = useLineraClient();
+
+  // In lazy mode, loading the app is what claims the public chain
+  const canLoad = isInitialized || isClaimPending;
   const [app, setApp] = useState<ChainApp | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
 
+  // Reloaded when the wallet changes (the owner's client signs mutations, the previous
+  // wallet's clients are freed) and when the client restarts (reinit, recovery)
   useEffect(() => {
     // Early returns for "not applicable" states
-    if (!isInitialized) return;
+    if (!canLoad) return;
     if (!chainId || chainId.trim() === '') return;
     if (!appId || appId.trim() === '') return;
 
     let cancelled = false;
 
+    // Aborts queries/mutations still running on this app when the effect is torn down
+    const controller = new AbortController();
+
+    // The previous app may come from a client freed by a wallet change or a restart
+    setApp(null);
+
+    // Keep the chain cached (and not freed) while this component uses it
+    const releasePin = getLineraClientManager()?.pinChain(chainId);
+
     const loadChainApp = async () => {
       try {
         setIsLoading(true);
@@ -97,17 +117,17 @@ export function useChainApplication(
         // Use client manager's getChainApplication (leverages chain cache)
         const clientManager = getLineraClientManager();
         if (!clientManager) {
-          throw new Error('Client manager not available');
+          throw new NotInitializedError('Client manager not available');
         }
 
         const chainApp = await clientManager.getChainApplication(chainId, appId);
 
         if (!chainApp) {
-          throw new Error('Failed to load chain application');
+          throw new LineraError('APPLICATION_LOAD_FAILED', `Failed to load application ${appId} on chain ${chainId}`);
         }
 
         if (!cancelled) {
-          setApp(chainApp);
+          setApp(bindChainAppSignal(chainApp, controller.signal));
           setError(null);
           setIsLoading(false);
         }
@@ -126,8 +146,10 @@ export function useChainApplication(
 
     return () => {
       cancelled = true;
+      controller.abort();
+      releasePin?.();
     };
-  }, [chainId, appId, isInitialized]);
+  }, [chainId, appId, canLoad, walletAddress, walletChainId, publicClient]);
 
   // Memoize return object to prevent unnecessary re-renders
   return useMemo(() => {
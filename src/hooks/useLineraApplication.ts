@@ -8,11 +8,15 @@
 
 import { useState, useEffect, useMemo } from 'react';
 import type { ApplicationClient } from '../lib/linera/types';
+import { bindApplicationSignal } from '../lib/linera/application-client';
 import { useLineraClient } from './useLineraClient';
 import { logger } from '../utils/logger';
 
 export interface UseLineraApplicationReturn {
-  /** Application client */
+  /**
+   * Application client
+   * Its queries and mutations are aborted (AbortError) on unmount or when appId changes
+   */
   app: ApplicationClient | null;
 
   /** Is client ready */
@@ -34,44 +38,53 @@ export interface UseLineraApplicationReturn {
  * @example
  * ```tsx
  * function AuctionList() {
- *   const { app, isReady, query, mutate, canWrite } = useApplication(FAIRDROP_APP_ID);
+ *   const { app, isReady, canWrite } = useApplication(FAIRDROP_APP_ID);
  *
  *   useEffect(() => {
- *     if (!isReady) return;
+ *     if (!isReady || !app) return;
  *
  *     const fetchAuctions = async () => {
- *       const auctions = await query('{ "query": "query { auctions }" }');
- *       setAuctions(auctions);
+ *       const { data } = await app.public.query<{ auctions: Auction[] }>({ query: 'query { auctions }' });
+ *       setAuctions(data?.auctions ?? []);
  *     };
  *
  *     fetchAuctions();
- *   }, [isReady, query]);
+ *   }, [isReady, app]);
  *
  *   const handleBid = async () => {
- *     if (!canWrite) {
+ *     if (!canWrite || !app?.wallet) {
  *       // Prompt user to connect wallet
  *       return;
  *     }
- *     await mutate('{ "query": "mutation { placeBid(amount: 100) }" }');
+ *     await app.wallet.mutate({
+ *       query: 'mutation PlaceBid($amount: Int!) { placeBid(amount: $amount) }',
+ *       variables: { amount: 100 },
+ *     });
  *   };
  * }
  * ```
  */
 
 export function useLineraApplication(appId: string): UseLineraApplicationReturn {
-  const { getApplication, isInitialized, canWrite } = useLineraClient();
+  const { getApplication, isInitialized, isClaimPending, canWrite } = useLineraClient();
+
+  // In lazy mode, loading the app is what claims the public chain
+  const canLoad = isInitialized || isClaimPending;
   const [app, setApp] = useState<ApplicationClient | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   // Load application instance
   useEffect(() => {
-    // Don't load if not initialized yet
-    if (!isInitialized) {
+    // Don't load if not initialized yet (and no lazy claim pending)
+    if (!canLoad) {
       return;
     }
 
     let cancelled = false;
 
+    // Aborts queries/mutations still running on this app when the effect is torn down
+    const controller = new AbortController();
+
     // CRITICAL: Clear app immediately when appId changes to prevent stale data
     setApp(null);
     setIsLoading(true);
@@ -82,7 +95,7 @@ export function useLineraApplication(appId: string): UseLineraApplicationReturn
 
         // CRITICAL: Verify appInstance matches current appId to prevent race conditions
         if (!cancelled && appInstance?.appId === appId) {
-          setApp(appInstance);
+          setApp(bindApplicationSignal(appInstance, controller.signal));
           setIsLoading(false);
         } else if (!cancelled) {
           logger.warn('[useApplication] App instance mismatch, discarding:', {
@@ -103,8 +116,9 @@ export function useLineraApplication(appId: string): UseLineraApplicationReturn
 
     return () => {
       cancelled = true;
+      controller.abort();
     };
-  }, [appId, getApplication, isInitialized, canWrite]);
+  }, [appId, getApplication, canLoad, canWrite]);
 
   // Memoize return object to prevent unnecessary re-renders
   return useMemo(() => ({
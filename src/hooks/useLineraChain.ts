@@ -9,7 +9,7 @@
 import { useState, useEffect, useMemo } from 'react';
 import type { Chain } from '@linera/client';
 import { useLineraClient } from './useLineraClient';
-import { getLineraClientManager } from '../lib/linera';
+import { getLineraClientManager, NotInitializedError } from '../lib/linera';
 import { logger } from '../utils/logger';
 
 export interface UseLineraChainReturn {
@@ -50,18 +50,21 @@ export interface UseLineraChainReturn {
  * ```
  */
 export function useLineraChain(chainId: string): UseLineraChainReturn {
-  const { isInitialized, publicClient } = useLineraClient();
+  const { isInitialized, isClaimPending, publicClient } = useLineraClient();
   const [chain, setChain] = useState<Chain | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
 
   useEffect(() => {
-    // Early returns for "not applicable" states
-    if (!isInitialized || !publicClient) return;
+    // Early returns for "not applicable" states (in lazy mode, getChain claims the public chain)
+    if ((!isInitialized || !publicClient) && !isClaimPending) return;
     if (!chainId || chainId.trim() === '') return;
 
     let cancelled = false;
 
+    // Keep the chain cached (and not freed) while this component uses it
+    const releasePin = getLineraClientManager()?.pinChain(chainId);
+
     const loadChain = async () => {
       try {
         setIsLoading(true);
@@ -70,7 +73,7 @@ export function useLineraChain(chainId: string): UseLineraChainReturn {
         // Use client manager's cached getChain
         const clientManager = getLineraClientManager();
         if (!clientManager) {
-          throw new Error('Client manager not available');
+          throw new NotInitializedError('Client manager not available');
         }
 
         const chainInstance = await clientManager.getChain(chainId);
@@ -95,8 +98,9 @@ export function useLineraChain(chainId: string): UseLineraChainReturn {
 
     return () => {
       cancelled = true;
+      releasePin?.();
     };
-  }, [chainId, isInitialized, publicClient]);
+  }, [chainId, isInitialized, isClaimPending, publicClient]);
 
   // Memoize return object to prevent unnecessary re-renders
   return useMemo(() => {
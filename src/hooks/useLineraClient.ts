@@ -6,7 +6,7 @@
 
 'use client';
 import type { Client, Wallet } from '@linera/client';
-import { type ClientState, type ApplicationClient, ClientMode } from '../lib/linera/types';
+import { type ClientState, type ApplicationClient, type FaucetUnavailable, type LazyClaimStatus, ClientMode } from '../lib/linera/types';
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import { getLineraClientManager } from '../lib/linera/client-manager';
 import { logger } from '../utils/logger';
@@ -18,23 +18,56 @@ export interface UseLineraClientReturn {
   /**
    * Public client for queries and system operations
    * Always available after initialization (uses temporary signer)
-   * Note: For blockchain event subscriptions, use chain.onNotification() on chain instances
+   * Note: For blockchain event subscriptions, use clientManager.subscribe(chainId, filter, handler)
    */
   publicClient: Client | null;
 
   /**
    * Wallet client for user mutations
    * Only available when wallet is connected (uses MetaMask signer)
-   * Note: For blockchain event subscriptions, use chain.onNotification() on chain instances
+   * Note: For blockchain event subscriptions, use clientManager.subscribe(chainId, filter, handler)
    */
   walletClient: Client | null;
 
   /** Wallet instance */
   wallet: Wallet | null;
 
+  /** Current mode */
+  mode: ClientMode;
+
+  /** Mode before the last transition */
+  previousMode: ClientMode | undefined;
+
   /** Is client initialized */
   isInitialized: boolean;
 
+  /** Is loading WASM / claiming the public chain */
+  isInitializing: boolean;
+
+  /** Is the WASM runtime loaded */
+  isRuntimeLoaded: boolean;
+
+  /** Lazy mode public chain claim status (undefined when not lazy) */
+  claimStatus: LazyClaimStatus | undefined;
+
+  /**
+   * Lazy mode: public chain not claimed yet (pending or claiming).
+   * getApplication/getChain may be called; the first call claims the chain.
+   */
+  isClaimPending: boolean;
+
+  /** Is connecting or switching the wallet */
+  isConnectingWallet: boolean;
+
+  /** Is disconnecting the wallet */
+  isDisconnecting: boolean;
+
+  /** Is restarting after a runtime fault */
+  isRecovering: boolean;
+
+  /** Initialization or recovery failed (see lastError) */
+  hasError: boolean;
+
   /** Is in read-only mode (guest) */
   isReadOnly: boolean;
 
@@ -56,9 +89,18 @@ export interface UseLineraClientReturn {
   /** Can perform write operations */
   canWrite: boolean;
 
-  /** Any error that occurred */
+  /** Last transition error (kept until a transition succeeds) */
+  lastError: Error | undefined;
+
+  /**
+   * Any error that occurred
+   * @deprecated Use `lastError`
+   */
   error: Error | undefined;
 
+  /** Set while the faucet is unavailable (circuit breaker open) */
+  faucetUnavailable: FaucetUnavailable | undefined;
+
   /** Get application client */
   getApplication: (appId: string) => Promise<ApplicationClient | null>;
 }
@@ -114,7 +156,17 @@ export function useLineraClient(): UseLineraClientReturn {
     publicClient: clientManager?.getPublicClient() || null,
     walletClient: clientManager?.getWalletClient() || null,
     wallet: clientManager?.getWallet() || null,
+    mode: state.mode,
+    previousMode: state.previousMode,
     isInitialized: state.isInitialized,
+    isInitializing: state.mode === ClientMode.INITIALIZING,
+    isRuntimeLoaded: state.runtimeLoaded ?? false,
+    claimStatus: state.claimStatus,
+    isClaimPending: state.claimStatus === 'pending' || state.claimStatus === 'claiming',
+    isConnectingWallet: state.mode === ClientMode.CONNECTING_WALLET,
+    isDisconnecting: state.mode === ClientMode.DISCONNECTING,
+    isRecovering: state.mode === ClientMode.RECOVERING,
+    hasError: state.mode === ClientMode.ERROR,
     isReadOnly: state.mode === ClientMode.READ_ONLY,
     isConnected: state.mode === ClientMode.FULL,
     walletAddress: state.walletAddress,
@@ -122,19 +174,26 @@ export function useLineraClient(): UseLineraClientReturn {
     publicChainId: state.publicChainId,
     walletChainId: state.walletChainId,
     canWrite: clientManager?.canWrite() || false,
+    lastError: state.lastError,
     error: state.error,
+    faucetUnavailable: state.faucetUnavailable,
     getApplication,
   }), [
     // Depend on specific state properties (primitives) not the object itself
     state.mode,
+    state.previousMode,
     state.isInitialized,
+    state.runtimeLoaded,
+    state.claimStatus,
     state.hasWallet,
     state.walletAddress,
     state.publicAddress,
     state.publicChainId,
     state.walletChainId,
     state.faucetUrl,
+    state.lastError,
     state.error,
+    state.faucetUnavailable,
     clientManager,
     getApplication,
   ]);
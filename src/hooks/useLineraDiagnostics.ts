@@ -0,0 +1,71 @@
+/**
+ * useLineraDiagnostics Hook
+ *
+ * Exposes the client manager diagnostics report (for "it's stuck" bug reports)
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { LineraDiagnosticsReport } from '../lib/linera/types';
+import { getLineraClientManager } from '../lib/linera/client-manager';
+
+export interface UseLineraDiagnosticsReturn {
+  /** Latest report (null until the client manager exists); updated on every state change */
+  report: LineraDiagnosticsReport | null;
+
+  /** Regenerate the report (e.g. to include the latest operation timings) */
+  refresh: () => void;
+
+  /** Generate a fresh report as pretty-printed JSON, ready to attach to a bug report */
+  exportJson: () => string | null;
+}
+
+/**
+ * Hook to read the client manager diagnostics report
+ *
+ * @example
+ * ```tsx
+ * function ReportBugButton() {
+ *   const { exportJson } = useLineraDiagnostics();
+ *
+ *   const report = () => {
+ *     const diagnostics = exportJson();
+ *     if (diagnostics) openBugReport({ attachment: diagnostics });
+ *   };
+ *
+ *   return <button onClick={report}>Report a problem</button>;
+ * }
+ * ```
+ */
+export function useLineraDiagnostics(): UseLineraDiagnosticsReturn {
+  const clientManager = getLineraClientManager();
+  const [report, setReport] = useState<LineraDiagnosticsReport | null>(
+    () => clientManager?.exportDiagnostics() ?? null
+  );
+
+  const refresh = useCallback(() => {
+    setReport(getLineraClientManager()?.exportDiagnostics() ?? null);
+  }, []);
+
+  useEffect(() => {
+    if (!clientManager) return;
+
+    refresh();
+    return clientManager.onStateChange(refresh);
+  }, [clientManager, refresh]);
+
+  const exportJson = useCallback((): string | null => {
+    const latest = getLineraClientManager()?.exportDiagnostics() ?? null;
+    if (!latest) return null;
+
+    setReport(latest);
+    return JSON.stringify(latest, null, 2);
+  }, []);
+
+  return useMemo(() => ({
+    report,
+    refresh,
+    exportJson,
+  }), [report, refresh, exportJson]);
+}
@@ -0,0 +1,51 @@
+/**
+ * useLineraEvent Hook
+ *
+ * Subscribes a component to a single client manager lifecycle event
+ */
+
+'use client';
+
+import { useEffect, useRef } from 'react';
+import type { LineraClientEvents, LineraClientEventName } from '../lib/linera/types';
+import { getLineraClientManager } from '../lib/linera/client-manager';
+
+/**
+ * Hook to subscribe to a lifecycle event of the client manager
+ *
+ * The handler can change between renders without resubscribing.
+ *
+ * @param event - Event name (e.g. 'walletConnected', 'mutationFinished')
+ * @param handler - Called with the typed event payload
+ *
+ * @example
+ * ```tsx
+ * function Toasts() {
+ *   useLineraEvent('walletConnected', ({ address, reusedChain }) => {
+ *     toast(`Connected ${address.slice(0, 6)}${reusedChain ? ' (existing chain)' : ''}`);
+ *   });
+ *
+ *   useLineraEvent('mutationFinished', ({ error, durationMs }) => {
+ *     if (error) toast.error(error.message);
+ *     else toast(`Done in ${durationMs}ms`);
+ *   });
+ *
+ *   return null;
+ * }
+ * ```
+ */
+export function useLineraEvent<K extends LineraClientEventName>(
+  event: K,
+  handler: (payload: LineraClientEvents[K]) => void
+): void {
+  const clientManager = getLineraClientManager();
+
+  // Use ref to call the latest handler without resubscribing on every render
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    if (!clientManager) return;
+    return clientManager.on(event, (payload) => handlerRef.current(payload));
+  }, [clientManager, event]);
+}
@@ -0,0 +1,59 @@
+/**
+ * useLineraRecovery Hook
+ *
+ * Observes supervised recovery from WASM runtime crashes
+ */
+
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import type { RecoveryEvent } from '../lib/linera/types';
+import { getLineraClientManager } from '../lib/linera/client-manager';
+
+export type RecoveryStatus = 'idle' | RecoveryEvent['type'];
+
+export interface UseLineraRecoveryReturn {
+  /** Latest recovery status ('idle' until a runtime fault occurs) */
+  status: RecoveryStatus;
+
+  /** Is a recovery in progress */
+  isRecovering: boolean;
+
+  /** Latest recovery event */
+  lastEvent: RecoveryEvent | null;
+
+  /** Error that triggered the recovery, or made it fail */
+  error: Error | undefined;
+}
+
+/**
+ * Hook to observe automatic runtime-crash recovery
+ * (requires `recovery={{ enabled: true }}` on the provider)
+ *
+ * @example
+ * ```tsx
+ * function RecoveryBanner() {
+ *   const { status, error } = useLineraRecovery();
+ *
+ *   if (status === 'recovering') return <div>Reconnecting to Linera...</div>;
+ *   if (status === 'failed') return <div>Linera client crashed: {error?.message}</div>;
+ *   return null;
+ * }
+ * ```
+ */
+export function useLineraRecovery(): UseLineraRecoveryReturn {
+  const clientManager = getLineraClientManager();
+  const [lastEvent, setLastEvent] = useState<RecoveryEvent | null>(null);
+
+  useEffect(() => {
+    if (!clientManager) return;
+    return clientManager.onRecoveryEvent(setLastEvent);
+  }, [clientManager]);
+
+  return useMemo(() => ({
+    status: lastEvent?.type ?? 'idle',
+    isRecovering: lastEvent?.type === 'recovering',
+    lastEvent,
+    error: lastEvent && 'error' in lastEvent ? lastEvent.error : undefined,
+  }), [lastEvent]);
+}
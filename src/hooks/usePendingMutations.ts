@@ -0,0 +1,58 @@
+/**
+ * usePendingMutations Hook
+ *
+ * Tracks wallet mutations waiting on the signature and block execution
+ */
+
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import type { PendingMutation } from '../lib/linera/types';
+import { getLineraClientManager } from '../lib/linera/client-manager';
+
+export interface UsePendingMutationsReturn {
+  /** Pending mutations, oldest first */
+  pending: PendingMutation[];
+
+  /** Is at least one mutation pending */
+  isPending: boolean;
+}
+
+/**
+ * Hook to render pending mutations (e.g. "sending..." rows)
+ *
+ * `data` is the `optimistic.data` passed to `mutate()`.
+ *
+ * @param appId - Only track mutations of this application
+ *
+ * @example
+ * ```tsx
+ * function PendingPosts({ appId }: { appId: string }) {
+ *   const { pending } = usePendingMutations(appId);
+ *
+ *   return pending.map((mutation) => (
+ *     <li key={mutation.id} className="pending">{(mutation.data as Post).text}</li>
+ *   ));
+ * }
+ * ```
+ */
+export function usePendingMutations(appId?: string): UsePendingMutationsReturn {
+  const clientManager = getLineraClientManager();
+  const [pending, setPending] = useState<PendingMutation[]>(
+    () => clientManager?.getPendingMutations(appId) ?? []
+  );
+
+  useEffect(() => {
+    if (!clientManager) return;
+
+    setPending(clientManager.getPendingMutations(appId));
+    return clientManager.on('pendingMutationsChanged', ({ pending: all }) => {
+      setPending(appId === undefined ? all : all.filter((mutation) => mutation.appId === appId));
+    });
+  }, [clientManager, appId]);
+
+  return useMemo(() => ({
+    pending,
+    isPending: pending.length > 0,
+  }), [pending]);
+}
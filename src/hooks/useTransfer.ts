@@ -0,0 +1,88 @@
+/**
+ * useTransfer Hook
+ *
+ * Native token transfers through the client manager
+ */
+
+'use client';
+
+import { useState, useCallback, useMemo } from 'react';
+import type { TransferRequest } from '../lib/linera/types';
+import { getLineraClientManager } from '../lib/linera/client-manager';
+import { NotInitializedError } from '../lib/linera/errors';
+import { logger } from '../utils/logger';
+
+export interface UseTransferReturn {
+  /** Transfer native tokens (rejects with the transfer error) */
+  transfer: (request: TransferRequest) => Promise<void>;
+
+  /** Is a transfer in progress */
+  isTransferring: boolean;
+
+  /** Error of the last transfer */
+  error: Error | null;
+
+  /** Clear the error */
+  reset: () => void;
+}
+
+/**
+ * Hook to transfer native tokens
+ *
+ * Balances read with `useBalance` refresh from the notifications emitted by the transfer.
+ *
+ * @example
+ * ```tsx
+ * function Tip({ chainId, owner }: { chainId: string; owner: string }) {
+ *   const { transfer, isTransferring, error } = useTransfer();
+ *
+ *   return (
+ *     <>
+ *       <button
+ *         disabled={isTransferring}
+ *         onClick={() => transfer({ to: { chainId, owner }, amount: '0.5' })}
+ *       >
+ *         Tip 0.5
+ *       </button>
+ *       {error && <div>Error: {error.message}</div>}
+ *     </>
+ *   );
+ * }
+ * ```
+ */
+export function useTransfer(): UseTransferReturn {
+  const [pending, setPending] = useState(0);
+  const [error, setError] = useState<Error | null>(null);
+
+  const transfer = useCallback(async (request: TransferRequest) => {
+    const clientManager = getLineraClientManager();
+    if (!clientManager) {
+      const error = new NotInitializedError('Client manager not initialized');
+      setError(error);
+      throw error;
+    }
+
+    try {
+      setPending((count) => count + 1);
+      setError(null);
+
+      await clientManager.transfer(request);
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      logger.error('[useTransfer] Transfer failed:', error);
+      setError(error);
+      throw error;
+    } finally {
+      setPending((count) => count - 1);
+    }
+  }, []);
+
+  const reset = useCallback(() => setError(null), []);
+
+  return useMemo(() => ({
+    transfer,
+    isTransferring: pending > 0,
+    error,
+    reset,
+  }), [transfer, pending, error, reset]);
+}
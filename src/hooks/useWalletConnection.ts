@@ -9,6 +9,8 @@
 import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { MetaMaskSigner, isMetaMaskInstalled } from '../lib/signers/metamask-signer';
 import { getLineraClientManager } from '../lib/linera/client-manager';
+import { ClientMode } from '../lib/linera/types';
+import { NotInitializedError, WalletNotConnectedError } from '../lib/linera/errors';
 import { useLineraClient } from './useLineraClient';
 import { logger } from '../utils/logger';
 
@@ -19,9 +21,21 @@ export interface UseWalletConnectionReturn {
   /** Is wallet connected */
   isConnected: boolean;
 
-  /** Is connecting */
+  /** Is connecting (also true while the manager switches accounts) */
   isConnecting: boolean;
 
+  /** Is disconnecting */
+  isDisconnecting: boolean;
+
+  /** Current client mode */
+  mode: ClientMode;
+
+  /** Client mode before the last transition */
+  previousMode: ClientMode | undefined;
+
+  /** Last client transition error (e.g. a failed wallet connection) */
+  lastError: Error | undefined;
+
   /** Connected wallet address */
   address: string | undefined;
 
@@ -57,7 +71,7 @@ export interface UseWalletConnectionReturn {
  */
 export function useWalletConnection(): UseWalletConnectionReturn {
   const clientManager = getLineraClientManager();
-  const { isConnected, walletAddress, error: clientError } = useLineraClient();
+  const { isConnected, walletAddress, error: clientError, mode, previousMode, lastError } = useLineraClient();
 
   const [isConnecting, setIsConnecting] = useState(false);
   const [error, setError] = useState<Error | undefined>(clientError);
@@ -67,12 +81,12 @@ export function useWalletConnection(): UseWalletConnectionReturn {
    */
   const connect = useCallback(async () => {
     if (!clientManager) {
-      setError(new Error('Client manager not initialized'));
+      setError(new NotInitializedError('Client manager not initialized'));
       return;
     }
 
     if (!isMetaMaskInstalled()) {
-      setError(new Error('MetaMask is not installed. Please install MetaMask to continue.'));
+      setError(new WalletNotConnectedError('MetaMask is not installed. Please install MetaMask to continue.'));
       return;
     }
 
@@ -102,7 +116,7 @@ export function useWalletConnection(): UseWalletConnectionReturn {
    */
   const disconnect = useCallback(async () => {
     if (!clientManager) {
-      setError(new Error('Client manager not initialized'));
+      setError(new NotInitializedError('Client manager not initialized'));
       return;
     }
 
@@ -166,10 +180,14 @@ export function useWalletConnection(): UseWalletConnectionReturn {
   return useMemo(() => ({
     isMetaMaskInstalled: isMetaMaskInstalled(),
     isConnected,
-    isConnecting,
+    isConnecting: isConnecting || mode === ClientMode.CONNECTING_WALLET,
+    isDisconnecting: mode === ClientMode.DISCONNECTING,
+    mode,
+    previousMode,
+    lastError,
     address: walletAddress,
     error,
     connect,
     disconnect,
-  }), [isConnected, isConnecting, walletAddress, error, connect, disconnect]);
+  }), [isConnected, isConnecting, mode, previousMode, lastError, walletAddress, error, connect, disconnect]);
 }
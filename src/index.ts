@@ -13,11 +13,23 @@ export {
   useLineraApplication,
   useChainApplication,
   useWalletConnection,
+  useLineraRecovery,
+  useLineraEvent,
+  useLineraDiagnostics,
+  usePendingMutations,
+  useBalance,
+  useTransfer,
   type UseLineraClientReturn,
   type UseLineraChainReturn,
   type UseLineraApplicationReturn,
   type UseChainApplicationReturn,
   type UseWalletConnectionReturn,
+  type UseLineraRecoveryReturn,
+  type RecoveryStatus,
+  type UseLineraDiagnosticsReturn,
+  type UsePendingMutationsReturn,
+  type UseBalanceReturn,
+  type UseTransferReturn,
 } from './hooks';
 
 // Provider
@@ -35,14 +47,103 @@ export {
   ApplicationClientImpl,
   ChainApplicationClient,
   TemporarySigner,
+  WalletChainRegistry,
+  LineraError,
+  QueryError,
+  MutationError,
+  SignatureRejectedError,
+  WalletNotConnectedError,
+  FaucetError,
+  FaucetUnavailableError,
+  WasmRuntimeError,
+  NotInitializedError,
+  ChainNotOwnedError,
+  TimeoutError,
+  AbortError,
+  isLineraError,
+  isSignatureRejection,
+  isCancellationError,
+  Amount,
+  CHAIN_ACCOUNT_OWNER,
+  TOKEN_DECIMALS,
+  isWasmRuntimeError,
+  loadLineraModule,
   ClientMode,
   type ClientState,
   type ClientConfig,
   type ReadOnlyWalletConfig,
+  type LazyInitConfig,
+  type LazyClaimStatus,
+  type ExistingChainsConfig,
+  type ClaimChainOptions,
+  type OwnedChain,
+  type ChainOwnership,
+  type LineraErrorCode,
+  type LineraErrorOptions,
+  type OperationErrorOptions,
+  type AmountInput,
+  type TokenAccount,
+  type TransferRequest,
+  type ChainNotification,
+  type ChainNotificationKind,
+  type NotificationFilter,
+  type NotificationHandler,
+  type SubscribeOptions,
+  type WalletFactory,
+  type PersistedPublicChain,
+  type WalletChainRegistryConfig,
+  type WalletChainEntry,
+  type FaucetEndpoint,
+  type FaucetUrlConfig,
+  type FaucetHealthCheckConfig,
+  type FaucetRetryPolicy,
+  type FaucetCircuitBreakerConfig,
+  type FaucetUnavailable,
+  type RecoveryPolicy,
+  type RecoveryEvent,
+  type RecoveryEventCallback,
+  type ReinitOptions,
+  type ChainCacheConfig,
+  type ChainCacheStats,
+  type QueryCacheConfig,
+  type QueryCacheStats,
+  type QueryBatchingConfig,
+  type CacheStats,
+  type OperationTimeoutConfig,
+  type CancellationOptions,
+  type OperationOptions,
+  type MutationOptions,
+  type OptimisticMutation,
+  type OptimisticQueryUpdate,
+  type PendingMutation,
+  type QueryChange,
+  type DocumentTypeDecoration,
+  type DocumentNodeLike,
+  type TypedDocumentNode,
+  type TypedDocumentString,
+  type TypedDocument,
+  type ResultOf,
+  type VariablesOf,
+  type DocumentOperationOptions,
+  type DocumentOperationArgs,
+  type GraphQLRequest,
+  type GraphQLResponse,
+  type GraphQLErrorEntry,
+  type DiagnosticsConfig,
+  type LineraDiagnosticsReport,
+  type ModeHistoryEntry,
+  type DiagnosticsErrorEntry,
+  type OperationTiming,
+  type LineraClientEvents,
+  type LineraClientEventName,
+  type OperationInfo,
+  type OperationResult,
   type ApplicationClient,
   type ChainApp,
   type StateChangeCallback,
   type ILineraClientManager,
+  type LineraModule,
+  type LineraModuleLoader,
   type Client,
   type Wallet,
   type Signer,
@@ -72,4 +173,6 @@ export {
   error,
   type LoggerConfig,
   type CustomLogger,
+  createMemoryStorage,
+  type StorageAdapter,
 } from './utils';
@@ -15,9 +15,279 @@ import type {
   PublicApp,
   WalletApp,
   ChainApp,
+  OperationObserver,
+  OperationInfo,
+  OperationOptions,
+  OperationTimeoutConfig,
+  CancellationOptions,
+  ChainOwnership,
+  DocumentOperationOptions,
+  MutationOptions,
+  OptimisticMutation,
+  QueryBatchingConfig,
 } from './types';
+import {
+  DEFAULT_OPERATION_TIMEOUTS,
+  withCancellation,
+  isCancellationError,
+  combineSignals,
+} from './cancellation';
+import {
+  type GraphQLInput,
+  isGraphQLRequest,
+  isTypedDocument,
+  getDocumentSource,
+  parseRequestBody,
+  hasGraphQLErrors,
+  serializeGraphQLRequest,
+  serializeDocumentRequest,
+  parseGraphQLResponse,
+} from './graphql';
+import {
+  LineraError,
+  QueryError,
+  MutationError,
+  SignatureRejectedError,
+  WasmRuntimeError,
+  WalletNotConnectedError,
+  NotInitializedError,
+  ChainNotOwnedError,
+  isSignatureRejection,
+  toError,
+  type OperationErrorOptions,
+} from './errors';
+import { isWasmRuntimeError } from './recovery';
+import type { QueryCache, QueryCacheKey } from './query-cache';
+import { QueryBatcher } from './query-batcher';
+import type { PendingMutationRegistry } from './pending-mutations';
 import { logger } from '../../utils/logger';
 
+/**
+ * Run an application operation under an optional observer
+ * The observer sees the raw error, before it is wrapped for the caller
+ */
+async function observeOperation<T>(
+  observer: OperationObserver | undefined,
+  descriptor: Omit<OperationInfo, 'id'>,
+  run: () => Promise<T>
+): Promise<T> {
+  if (!observer) {
+    return run();
+  }
+
+  const info = observer.start(descriptor);
+  const startedAt = Date.now();
+  try {
+    const result = await run();
+    observer.finish(info, startedAt);
+    return result;
+  } catch (error) {
+    observer.finish(info, startedAt, error);
+    throw error;
+  }
+}
+
+/**
+ * Split the cancellation options and document variables from the options forwarded to the Linera application
+ */
+function splitOptions(
+  options: (DocumentOperationOptions<unknown> & MutationOptions) | undefined,
+  defaultTimeoutMs: number
+): {
+  queryOptions?: QueryOptions;
+  cancellation: CancellationOptions;
+  variables?: unknown;
+  cache: boolean;
+  batch: boolean;
+  optimistic?: OptimisticMutation;
+} {
+  if (!options) {
+    return { cancellation: { timeoutMs: defaultTimeoutMs }, cache: true, batch: true };
+  }
+
+  const { signal, timeoutMs, variables, cache, batch, optimistic, ...queryOptions } = options;
+  return {
+    queryOptions: Object.keys(queryOptions).length > 0 ? queryOptions : undefined,
+    cancellation: { signal, timeoutMs: timeoutMs ?? defaultTimeoutMs },
+    variables,
+    cache: cache !== false,
+    batch: batch !== false,
+    optimistic,
+  };
+}
+
+/**
+ * Request string for the Linera application (raw strings are sent unchanged)
+ */
+function toRequest(input: GraphQLInput, variables: unknown): string {
+  if (isGraphQLRequest(input)) {
+    return serializeGraphQLRequest(input);
+  }
+  return isTypedDocument(input) ? serializeDocumentRequest(input, variables) : input;
+}
+
+/**
+ * Query cache identity of an application query
+ */
+function toCacheKey(
+  appId: string,
+  chainId: string,
+  input: GraphQLInput,
+  variables: unknown,
+  queryOptions: QueryOptions | undefined
+): QueryCacheKey {
+  if (isGraphQLRequest(input)) {
+    return {
+      appId,
+      chainId,
+      query: typeof input.query === 'string' ? input.query : getDocumentSource(input.query),
+      variables: input.variables,
+      operationName: input.operationName,
+      options: queryOptions,
+    };
+  }
+  if (isTypedDocument(input)) {
+    return { appId, chainId, query: getDocumentSource(input), variables, options: queryOptions };
+  }
+
+  // Raw request bodies are keyed like request objects, so optimistic updates can target their query
+  const body = parseRequestBody(input);
+  return body
+    ? { appId, chainId, query: body.query as string, variables: body.variables, operationName: body.operationName, options: queryOptions }
+    : { appId, chainId, query: input, options: queryOptions };
+}
+
+/**
+ * Result returned to the caller: `{ data, errors }` for request objects,
+ * `data` for typed documents, the raw response for strings
+ *
+ * @throws QueryError or MutationError when a typed document gets GraphQL errors
+ */
+function toResult<T>(input: GraphQLInput, response: unknown, operation: OperationDescriptor): T {
+  if (isGraphQLRequest(input)) {
+    return parseGraphQLResponse(response) as T;
+  }
+  if (!isTypedDocument(input)) {
+    return response as T;
+  }
+
+  const { data, errors } = parseGraphQLResponse<T>(response);
+  if (errors.length > 0) {
+    throw createOperationError(operation, errors.map((error) => error.message).join('; '), { errors });
+  }
+  return data as T;
+}
+
+type OperationDescriptor = Omit<OperationInfo, 'id'>;
+
+/**
+ * Message prefix of failed operations, per client interface and kind
+ */
+const FAILURE_MESSAGES: Record<OperationInfo['source'], Record<OperationInfo['kind'], string>> = {
+  public: { query: 'Application query failed', mutation: 'System operation failed' },
+  wallet: { query: 'WalletApplication query failed', mutation: 'Application mutation failed' },
+  chain: { query: 'Chain application query failed', mutation: 'Chain application mutation failed' },
+};
+
+function createOperationError(
+  operation: OperationDescriptor,
+  message: string,
+  options: OperationErrorOptions
+): QueryError | MutationError {
+  const fullMessage = `${FAILURE_MESSAGES[operation.source][operation.kind]}: ${message}`;
+  const context = { ...options, appId: operation.appId, chainId: operation.chainId };
+  return operation.kind === 'query'
+    ? new QueryError(fullMessage, context)
+    : new MutationError(fullMessage, context);
+}
+
+/**
+ * Wrap an operation failure in the matching LineraError (Linera errors are kept as is)
+ */
+function toOperationError(error: unknown, operation: OperationDescriptor): LineraError {
+  if (error instanceof LineraError) {
+    return error;
+  }
+  if (operation.kind === 'mutation' && isSignatureRejection(error)) {
+    return new SignatureRejectedError({ cause: error });
+  }
+
+  const err = toError(error);
+  if (isWasmRuntimeError(err)) {
+    return new WasmRuntimeError(`${FAILURE_MESSAGES[operation.source][operation.kind]}: ${err.message}`, { cause: err });
+  }
+  return createOperationError(operation, err.message, { cause: err });
+}
+
+/**
+ * Rethrow timeouts and aborts unchanged so callers can tell them apart from failures
+ */
+function rethrowCancellation(error: unknown, context: string): void {
+  if (isCancellationError(error)) {
+    logger.warn(`${context} ${error.message}`);
+    throw error;
+  }
+}
+
+/**
+ * Implementation signature shared by the overloads of app operations
+ * (declared as a method so the overloaded operations are assignable to it, and back)
+ */
+interface AppOperationMethod<TOptions extends OperationOptions> {
+  run<T>(gql: GraphQLInput, options?: DocumentOperationOptions<unknown> & TOptions): Promise<T>;
+}
+
+type AppOperation<TOptions extends OperationOptions = OperationOptions> = AppOperationMethod<TOptions>['run'];
+
+/**
+ * Forward an operation with a bound signal (both the bound and the caller's signal abort the call)
+ */
+function withSignal<TOptions extends OperationOptions>(
+  operation: AppOperation<TOptions>,
+  signal: AbortSignal
+): AppOperation<TOptions> {
+  return (gql, options) => operation(gql, Object.assign({}, options, { signal: combineSignals(signal, options?.signal) }));
+}
+
+/**
+ * Bind an AbortSignal to every call of an application client
+ * Used by hooks to abort in-flight work on unmount or when the appId changes.
+ */
+export function bindApplicationSignal(app: ApplicationClient, signal: AbortSignal): ApplicationClient {
+  const { public: publicApp, wallet } = app;
+
+  return {
+    appId: app.appId,
+    public: {
+      query: withSignal(publicApp.query.bind(publicApp), signal),
+      systemMutate: withSignal(publicApp.systemMutate.bind(publicApp), signal),
+      getAddress: () => publicApp.getAddress(),
+      getChainId: () => publicApp.getChainId(),
+    },
+    wallet: wallet && {
+      query: withSignal(wallet.query.bind(wallet), signal),
+      mutate: withSignal(wallet.mutate.bind(wallet), signal),
+      getAddress: () => wallet.getAddress(),
+      getChainId: () => wallet.getChainId(),
+    },
+  };
+}
+
+/**
+ * Bind an AbortSignal to every call of a chain application
+ * Used by hooks to abort in-flight work on unmount or when the chainId/appId changes.
+ */
+export function bindChainAppSignal(app: ChainApp, signal: AbortSignal): ChainApp {
+  return {
+    query: withSignal(app.query.bind(app), signal),
+    mutate: withSignal(app.mutate.bind(app), signal),
+    getAddress: () => app.getAddress(),
+    getOwners: () => app.getOwners(),
+    canMutate: () => app.canMutate(),
+    getChainId: () => app.getChainId(),
+  };
+}
+
 /**
  * Wrapper around Linera Application for cleaner API with dual-chain support
  */
@@ -32,6 +302,11 @@ export class ApplicationClientImpl implements ApplicationClient {
   private walletChainId?: string;
   private walletAddress?: string;
   private publicAddress?: string;
+  private observer?: OperationObserver;
+  private timeouts: Required<OperationTimeoutConfig>;
+  private queryCache?: QueryCache;
+  private pendingMutations?: PendingMutationRegistry;
+  private queryBatcher?: QueryBatcher;
 
   constructor(
     appId: string,
@@ -41,7 +316,12 @@ export class ApplicationClientImpl implements ApplicationClient {
     publicChainId?: string,
     walletChainId?: string,
     walletAddress?: string,
-    publicAddress?: string
+    publicAddress?: string,
+    observer?: OperationObserver,
+    timeouts: Required<OperationTimeoutConfig> = DEFAULT_OPERATION_TIMEOUTS,
+    queryCache?: QueryCache,
+    pendingMutations?: PendingMutationRegistry,
+    queryBatching?: QueryBatchingConfig
   ) {
     this.appId = appId;
     this.publicApp = publicApp;
@@ -50,6 +330,19 @@ export class ApplicationClientImpl implements ApplicationClient {
     this.walletChainId = walletChainId;
     this.walletAddress = walletAddress;
     this.publicAddress = publicAddress;
+    this.observer = observer;
+    this.timeouts = timeouts;
+    this.queryCache = queryCache;
+    this.pendingMutations = pendingMutations;
+
+    if (queryBatching?.enabled) {
+      // Observed once per request actually sent (a batch counts as one query)
+      const operation: OperationDescriptor = { kind: 'query', source: 'public', appId, chainId: publicChainId };
+      this.queryBatcher = new QueryBatcher({
+        ...queryBatching,
+        send: (request, options) => observeOperation(this.observer, operation, () => this.publicApp.query(request, options)),
+      });
+    }
 
     // Initialize public and wallet app interfaces
     this.public = this.createPublicApp();
@@ -65,33 +358,56 @@ export class ApplicationClientImpl implements ApplicationClient {
 
   private createPublicApp(): PublicApp {
     return {
-      query: async <T>(gql: string, options?: QueryOptions): Promise<T> => {
+      query: async <T>(gql: GraphQLInput, options?: DocumentOperationOptions<unknown>): Promise<T> => {
+        const { queryOptions, cancellation, variables, cache, batch } = splitOptions(options, this.timeouts.queryMs);
+        const operation: OperationDescriptor = { kind: 'query', source: 'public', appId: this.appId, chainId: this.publicChainId };
         try {
-          logger.debug(`[ApplicationClient] Query on public chain ${this.publicChainId}:`, gql);
-          const result = await this.publicApp.query(gql, options);
-          return result as T;
+          const request = toRequest(gql, variables);
+          logger.debug(`[ApplicationClient] Query on public chain ${this.publicChainId}:`, request);
+
+          let result: unknown;
+          if (this.queryCache && cache && this.publicChainId) {
+            // Shared with other callers: observed once per query actually sent
+            const key = toCacheKey(this.appId, this.publicChainId, gql, variables, queryOptions);
+            const queryCache = this.queryCache;
+            result = await withCancellation('Query', cancellation, () => queryCache.fetch(key, () =>
+              this.queryBatcher && batch
+                ? this.queryBatcher.load(request, queryOptions)
+                : observeOperation(this.observer, operation, () => this.publicApp.query(request, queryOptions))
+            ));
+          } else if (this.queryBatcher && batch) {
+            const queryBatcher = this.queryBatcher;
+            result = await withCancellation('Query', cancellation, () => queryBatcher.load(request, queryOptions));
+          } else {
+            result = await observeOperation(
+              this.observer,
+              operation,
+              () => withCancellation('Query', cancellation, () => this.publicApp.query(request, queryOptions))
+            );
+          }
+          return toResult<T>(gql, result, operation);
         } catch (error) {
-          const err = error instanceof Error ? error : new Error(String(error));
-          logger.error(`[ApplicationClient] Query failed:`, err);
-          throw new Error(`Application query failed: ${err.message}`);
+          rethrowCancellation(error, '[ApplicationClient] Query:');
+          logger.error(`[ApplicationClient] Query failed:`, error);
+          throw toOperationError(error, operation);
         }
       },
 
       getAddress: (): string => {
         if (!this.publicAddress) {
-          throw new Error('Public address not available');
+          throw new NotInitializedError('Public address not available');
         }
         return this.publicAddress;
       },
 
       getChainId: (): string => {
         if (!this.publicChainId) {
-          throw new Error('Public chain ID not available');
+          throw new NotInitializedError('Public chain ID not available');
         }
         return this.publicChainId;
       },
       
-      systemMutate: async <T>(gql: string, options?: QueryOptions): Promise<T> => {
+      systemMutate: async <T>(gql: GraphQLInput, options?: DocumentOperationOptions<unknown>): Promise<T> => {
         return this.executeSystemMutation<T>(gql, options);
       },
     };
@@ -99,39 +415,47 @@ export class ApplicationClientImpl implements ApplicationClient {
 
   private createWalletApp(): WalletApp {
     return {
-      query: async <T>(gql: string, options?: QueryOptions): Promise<T> => {
+      query: async <T>(gql: GraphQLInput, options?: DocumentOperationOptions<unknown>): Promise<T> => {
         if (!this.walletApp) {
-          throw new Error('Wallet not connected or has been disconnected');
+          throw new WalletNotConnectedError('Wallet not connected or has been disconnected');
         }
 
+        const { queryOptions, cancellation, variables } = splitOptions(options, this.timeouts.queryMs);
+        const operation: OperationDescriptor = { kind: 'query', source: 'wallet', appId: this.appId, chainId: this.walletChainId };
         try {
-          logger.debug(`[WalletApplicationClient] Query on wallet chain ${this.walletChainId}:`, gql);
-          const result = await this.walletApp.query(gql, options);
-          return result as T;
+          const request = toRequest(gql, variables);
+          logger.debug(`[WalletApplicationClient] Query on wallet chain ${this.walletChainId}:`, request);
+          const walletApp = this.walletApp;
+          const result = await observeOperation(
+            this.observer,
+            operation,
+            () => withCancellation('Query', cancellation, () => walletApp.query(request, queryOptions))
+          );
+          return toResult<T>(gql, result, operation);
         } catch (error) {
-          const err = error instanceof Error ? error : new Error(String(error));
-          logger.error(`[WalletApplicationClient] Query failed:`, err);
-          throw new Error(`WalletApplication query failed: ${err.message}`);
+          rethrowCancellation(error, '[WalletApplicationClient] Query:');
+          logger.error(`[WalletApplicationClient] Query failed:`, error);
+          throw toOperationError(error, operation);
         }
       },
 
-      mutate: async <T>(gql: string, options?: QueryOptions): Promise<T> => {
+      mutate: async <T>(gql: GraphQLInput, options?: DocumentOperationOptions<unknown> & MutationOptions): Promise<T> => {
         if (!this.walletApp) {
-          throw new Error('Wallet not connected or has been disconnected');
+          throw new WalletNotConnectedError('Wallet not connected or has been disconnected');
         }
         return this.executeUserMutation<T>(gql, options);
       },
 
       getAddress: (): string => {
         if (!this.walletAddress) {
-          throw new Error('Wallet address not available');
+          throw new WalletNotConnectedError('Wallet address not available');
         }
         return this.walletAddress;
       },
 
       getChainId: (): string => {
         if (!this.walletChainId) {
-          throw new Error('Wallet chain ID not available');
+          throw new WalletNotConnectedError('Wallet chain ID not available');
         }
         return this.walletChainId;
       },
@@ -148,17 +472,24 @@ export class ApplicationClientImpl implements ApplicationClient {
    * No user prompt required - uses temporary wallet
    */
   private async executeSystemMutation<T>(
-    gql: string,
-    options?: QueryOptions
+    gql: GraphQLInput,
+    options?: DocumentOperationOptions<unknown>
   ): Promise<T> {
+    const { queryOptions, cancellation, variables } = splitOptions(options, this.timeouts.mutationMs);
+    const operation: OperationDescriptor = { kind: 'mutation', source: 'public', appId: this.appId, chainId: this.publicChainId };
     try {
+      const request = toRequest(gql, variables);
       logger.info(`[ApplicationClient] Executing system mutation on public chain: ${this.publicChainId}`);
-      const result = await this.publicApp.query(gql, options);
-      return result as T;
+      const result = await observeOperation(
+        this.observer,
+        operation,
+        () => withCancellation('System mutation', cancellation, () => this.publicApp.query(request, queryOptions))
+      );
+      return toResult<T>(gql, result, operation);
     } catch (error) {
-      const err = error instanceof Error ? error : new Error(String(error));
-      logger.error(`[ApplicationClient] System mutation failed:`, err);
-      throw new Error(`System operation failed: ${err.message}`);
+      rethrowCancellation(error, '[ApplicationClient] System mutation:');
+      logger.error(`[ApplicationClient] System mutation failed:`, error);
+      throw toOperationError(error, operation);
     }
   }
 
@@ -166,22 +497,38 @@ export class ApplicationClientImpl implements ApplicationClient {
    * Execute user mutation on WALLET chain (signed by MetaMask)
    * Used for transfers, user actions, etc.
    * Requires user signature via MetaMask
+   *
+   * The mutation is registered as pending until it settles; its optimistic updates
+   * are kept on success and rolled back on any failure, GraphQL errors, timeout or abort.
    */
   private async executeUserMutation<T>(
-    gql: string,
-    options?: QueryOptions
+    gql: GraphQLInput,
+    options?: DocumentOperationOptions<unknown> & MutationOptions
   ): Promise<T> {
+    const { queryOptions, cancellation, variables, optimistic } = splitOptions(options, this.timeouts.mutationMs);
+    const operation: OperationDescriptor = { kind: 'mutation', source: 'wallet', appId: this.appId, chainId: this.walletChainId };
+    let settle: ((succeeded: boolean) => void) | undefined;
     try {
+      const request = toRequest(gql, variables);
       if (!this.walletApp) {
-        throw new Error('Wallet application not available');
+        throw new WalletNotConnectedError('Wallet application not available');
       }
       logger.info(`[ApplicationClient] Executing user mutation on wallet chain: ${this.walletChainId}`);
-      const result = await this.walletApp.query(gql, options);
-      return result as T;
+      const walletApp = this.walletApp;
+      settle = this.pendingMutations?.begin(this.appId, this.walletChainId, optimistic);
+      const result = await observeOperation(
+        this.observer,
+        operation,
+        () => withCancellation('Mutation', cancellation, () => walletApp.query(request, queryOptions))
+      );
+      const value = toResult<T>(gql, result, operation);
+      settle?.(!hasGraphQLErrors(result));
+      return value;
     } catch (error) {
-      const err = error instanceof Error ? error : new Error(String(error));
-      logger.error(`[ApplicationClient] User mutation failed:`, err);
-      throw new Error(`Application mutation failed: ${err.message}`);
+      settle?.(false);
+      rethrowCancellation(error, '[ApplicationClient] Mutation:');
+      logger.error(`[ApplicationClient] User mutation failed:`, error);
+      throw toOperationError(error, operation);
     }
   }
 }
@@ -189,60 +536,109 @@ export class ApplicationClientImpl implements ApplicationClient {
 /**
  * Wrapper for standalone chain applications
  * Provides WalletApp-like interface for applications loaded from arbitrary chains
+ *
+ * The application must come from the client of the signer owning the chain
+ * (`ownership.signer`); without a local owner, mutations are refused.
  */
 export class ChainApplicationClient implements ChainApp {
   private app: Application;
   private chainId: string;
-  private address: string;
+  private ownership: ChainOwnership;
+  private observer?: OperationObserver;
+  private timeouts: Required<OperationTimeoutConfig>;
   readonly appId: string;
 
   constructor(
     appId: string,
     app: Application,
     chainId: string,
-    address: string
+    ownership: ChainOwnership,
+    observer?: OperationObserver,
+    timeouts: Required<OperationTimeoutConfig> = DEFAULT_OPERATION_TIMEOUTS
   ) {
     this.appId = appId;
     this.app = app;
     this.chainId = chainId;
-    this.address = address;
+    this.ownership = ownership;
+    this.observer = observer;
+    this.timeouts = timeouts;
   }
 
   /**
    * Execute GraphQL query on the chain
    */
-  async query<T>(gql: string, options?: QueryOptions): Promise<T> {
+  async query<T>(gql: GraphQLInput, options?: DocumentOperationOptions<unknown>): Promise<T> {
+    const { queryOptions, cancellation, variables } = splitOptions(options, this.timeouts.queryMs);
+    const operation: OperationDescriptor = { kind: 'query', source: 'chain', appId: this.appId, chainId: this.chainId };
     try {
-      logger.debug(`[ChainApplicationClient] Query on chain ${this.chainId}:`, gql);
-      const result = await this.app.query(gql, options);
-      return result as T;
+      const request = toRequest(gql, variables);
+      logger.debug(`[ChainApplicationClient] Query on chain ${this.chainId}:`, request);
+      const result = await observeOperation(
+        this.observer,
+        operation,
+        () => withCancellation('Query', cancellation, () => this.app.query(request, queryOptions))
+      );
+      return toResult<T>(gql, result, operation);
     } catch (error) {
-      const err = error instanceof Error ? error : new Error(String(error));
-      logger.error(`[ChainApplicationClient] Query failed:`, err);
-      throw new Error(`Chain application query failed: ${err.message}`);
+      rethrowCancellation(error, '[ChainApplicationClient] Query:');
+      logger.error(`[ChainApplicationClient] Query failed:`, error);
+      throw toOperationError(error, operation);
     }
   }
 
   /**
-   * Execute mutation on the chain (signed by chain's signer)
+   * Execute mutation on the chain (signed by the local signer owning it)
+   *
+   * @throws ChainNotOwnedError if no local signer owns the chain
    */
-  async mutate<T>(gql: string, options?: QueryOptions): Promise<T> {
+  async mutate<T>(gql: GraphQLInput, options?: DocumentOperationOptions<unknown>): Promise<T> {
+    if (!this.ownership.signer) {
+      const err = new ChainNotOwnedError(this.chainId, this.ownership.owners);
+      logger.warn(`[ChainApplicationClient] Mutation refused: ${err.message}`);
+      throw err;
+    }
+
+    const { queryOptions, cancellation, variables } = splitOptions(options, this.timeouts.mutationMs);
+    const operation: OperationDescriptor = { kind: 'mutation', source: 'chain', appId: this.appId, chainId: this.chainId };
     try {
+      const request = toRequest(gql, variables);
       logger.info(`[ChainApplicationClient] Executing mutation on chain: ${this.chainId}`);
-      const result = await this.app.query(gql, options);
-      return result as T;
+      const result = await observeOperation(
+        this.observer,
+        operation,
+        () => withCancellation('Mutation', cancellation, () => this.app.query(request, queryOptions))
+      );
+      return toResult<T>(gql, result, operation);
     } catch (error) {
-      const err = error instanceof Error ? error : new Error(String(error));
-      logger.error(`[ChainApplicationClient] Mutation failed:`, err);
-      throw new Error(`Chain application mutation failed: ${err.message}`);
+      rethrowCancellation(error, '[ChainApplicationClient] Mutation:');
+      logger.error(`[ChainApplicationClient] Mutation failed:`, error);
+      throw toOperationError(error, operation);
     }
   }
 
   /**
-   * Get chain owner address
+   * Get chain owner address (the owner signing mutations, else the first known owner)
    */
   getAddress(): string {
-    return this.address;
+    const address = this.ownership.signer ?? this.ownership.owners[0];
+    if (!address) {
+      throw new ChainNotOwnedError(this.chainId, []);
+    }
+    return address;
+  }
+
+  /**
+   * Get the known owners of the chain
+   */
+  getOwners(): string[] {
+    return [...this.ownership.owners];
+  }
+
+  /**
+   * Whether a local signer owns the chain
+   */
+  canMutate(): boolean {
+    return this.ownership.signer !== null;
   }
 
   /**
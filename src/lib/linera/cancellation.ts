@@ -0,0 +1,146 @@
+/**
+ * Cancellation
+ *
+ * Timeouts and AbortSignal support for application operations and
+ * initialization. The underlying WASM calls cannot be interrupted: a
+ * cancelled operation rejects immediately and its late result is dropped.
+ */
+
+import type { CancellationOptions, OperationTimeoutConfig } from './types';
+import { TimeoutError, AbortError } from './errors';
+
+export const DEFAULT_OPERATION_TIMEOUTS: Required<OperationTimeoutConfig> = {
+  queryMs: 30_000,
+  mutationMs: 120_000,
+  initializeMs: 120_000,
+};
+
+/**
+ * Whether an error comes from a timeout or an abort (never wrapped or retried)
+ */
+export function isCancellationError(error: unknown): error is TimeoutError | AbortError {
+  return error instanceof TimeoutError || error instanceof AbortError;
+}
+
+/**
+ * Guard for one cancellable unit of work (a single call or a multi-step initialization)
+ */
+export interface Cancellation {
+  /** Settle with the promise, or reject as soon as the work is cancelled */
+  guard<T>(promise: Promise<T>): Promise<T>;
+
+  /** Throw if the work has been cancelled */
+  throwIfCancelled(): void;
+
+  /** Aborted (with the AbortError or TimeoutError as reason) once the work is cancelled */
+  readonly signal: AbortSignal;
+
+  /** Stop the timer and detach from the signal */
+  dispose(): void;
+}
+
+/**
+ * Start a cancellation guard from a signal and a timeout (0 or undefined disables the timeout)
+ */
+export function createCancellation(operation: string, options: CancellationOptions): Cancellation {
+  const { signal, timeoutMs } = options;
+  let cancelledWith: Error | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let reject: ((error: Error) => void) | null = null;
+  const controller = new AbortController();
+
+  const cancelled = new Promise<never>((_, rejectCancelled) => {
+    reject = rejectCancelled;
+  });
+  // Only observed through guard()
+  cancelled.catch(() => undefined);
+
+  const cancel = (error: Error) => {
+    if (cancelledWith) return;
+    cancelledWith = error;
+    reject?.(error);
+    controller.abort(error);
+  };
+
+  const onAbort = () => cancel(new AbortError(operation, signal?.reason));
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  if (!cancelledWith && timeoutMs && timeoutMs > 0) {
+    timer = setTimeout(() => cancel(new TimeoutError(operation, timeoutMs)), timeoutMs);
+  }
+
+  return {
+    signal: controller.signal,
+
+    guard<T>(promise: Promise<T>): Promise<T> {
+      if (cancelledWith) {
+        // Late results of already-started work are dropped silently
+        promise.catch(() => undefined);
+        return Promise.reject(cancelledWith);
+      }
+      return Promise.race([promise, cancelled]);
+    },
+
+    throwIfCancelled(): void {
+      if (cancelledWith) throw cancelledWith;
+    },
+
+    dispose(): void {
+      if (timer) clearTimeout(timer);
+      timer = null;
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+/**
+ * Run an operation under a signal and a timeout
+ *
+ * @throws AbortError if the signal is (or becomes) aborted
+ * @throws TimeoutError if the operation does not settle within `timeoutMs`
+ */
+export async function withCancellation<T>(
+  operation: string,
+  options: CancellationOptions,
+  run: () => Promise<T>
+): Promise<T> {
+  const cancellation = createCancellation(operation, options);
+  try {
+    cancellation.throwIfCancelled();
+    return await cancellation.guard(run());
+  } finally {
+    cancellation.dispose();
+  }
+}
+
+/**
+ * Combine signals: the result aborts as soon as any of them aborts
+ */
+export function combineSignals(...signals: Array<AbortSignal | undefined>): AbortSignal | undefined {
+  const present = signals.filter((signal): signal is AbortSignal => signal !== undefined);
+  if (present.length <= 1) {
+    return present[0];
+  }
+
+  const controller = new AbortController();
+  const abort = (signal: AbortSignal) => {
+    controller.abort(signal.reason);
+    present.forEach((other) => other.removeEventListener('abort', onAbort));
+  };
+  function onAbort(this: AbortSignal) {
+    abort(this);
+  }
+
+  const alreadyAborted = present.find((signal) => signal.aborted);
+  if (alreadyAborted) {
+    controller.abort(alreadyAborted.reason);
+  } else {
+    present.forEach((signal) => signal.addEventListener('abort', onAbort, { once: true }));
+  }
+  return controller.signal;
+}
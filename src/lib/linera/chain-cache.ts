@@ -0,0 +1,236 @@
+/**
+ * Chain Cache
+ *
+ * LRU cache of `Chain` instances with optional TTL:
+ * - A hit refreshes recency; the least recently used unpinned chain is evicted first
+ * - Expired entries are dropped on access and before evicting for capacity
+ * - Pinned chains (in use by app clients or mounted hooks) are never evicted
+ * - Evicted chains are freed, releasing their WASM memory
+ */
+
+import type { Chain } from '@linera/client';
+import type { ChainCacheConfig, ChainCacheStats } from './types';
+import { logger } from '../../utils/logger';
+
+const DEFAULT_CHAIN_CACHE: Required<ChainCacheConfig> = {
+  capacity: 10,
+  ttlMs: 0,
+};
+
+/**
+ * Why a chain left the cache
+ */
+export type ChainEvictionReason = 'capacity' | 'expired' | 'cleared';
+
+/**
+ * Options for ChainCache
+ */
+export interface ChainCacheOptions extends ChainCacheConfig {
+  /** Called after a chain was removed from the cache */
+  onEvict?: (chainId: string, reason: ChainEvictionReason) => void;
+}
+
+interface ChainCacheEntry {
+  chain: Chain;
+  /** Time (ms since epoch) the chain was cached */
+  cachedAt: number;
+}
+
+/**
+ * LRU + TTL cache of chains with pinning
+ */
+export class ChainCache {
+  private capacity: number;
+  private ttlMs: number;
+  private onEvict?: (chainId: string, reason: ChainEvictionReason) => void;
+
+  // Map iteration order is the recency order (oldest first)
+  private entries: Map<string, ChainCacheEntry> = new Map();
+  private pins: Map<string, number> = new Map();
+
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(options?: ChainCacheOptions) {
+    const config = { ...DEFAULT_CHAIN_CACHE, ...options };
+    this.capacity = Math.max(1, config.capacity);
+    this.ttlMs = Math.max(0, config.ttlMs);
+    this.onEvict = options?.onEvict;
+  }
+
+  /**
+   * Get a cached chain, refreshing its recency
+   */
+  get(chainId: string): Chain | undefined {
+    const entry = this.entries.get(chainId);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    if (this.isExpired(entry) && !this.isPinned(chainId)) {
+      this.evict(chainId, 'expired');
+      this.misses++;
+      return undefined;
+    }
+
+    // Move to the most recently used position
+    this.entries.delete(chainId);
+    this.entries.set(chainId, entry);
+    this.hits++;
+    return entry.chain;
+  }
+
+  /**
+   * Whether a chain is cached (does not affect recency or stats)
+   */
+  has(chainId: string): boolean {
+    return this.entries.has(chainId);
+  }
+
+  /**
+   * Cache a chain, evicting expired then least recently used unpinned chains
+   */
+  set(chainId: string, chain: Chain): void {
+    const existing = this.entries.get(chainId);
+    if (existing && existing.chain !== chain) {
+      freeChain(chainId, existing.chain);
+    }
+    this.entries.delete(chainId);
+    this.entries.set(chainId, { chain, cachedAt: Date.now() });
+
+    this.pruneExpired();
+
+    while (this.entries.size > this.capacity) {
+      const victim = this.findEvictable(chainId);
+      if (!victim) {
+        logger.warn(
+          `[ChainCache] All chains pinned, cache exceeds capacity (${this.entries.size}/${this.capacity})`
+        );
+        break;
+      }
+      this.evict(victim, 'capacity');
+    }
+  }
+
+  /**
+   * Pin a chain so it is never evicted (reference counted, may precede caching)
+   *
+   * @returns Function releasing this pin
+   */
+  pin(chainId: string): () => void {
+    this.pins.set(chainId, (this.pins.get(chainId) ?? 0) + 1);
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.unpin(chainId);
+    };
+  }
+
+  /**
+   * Whether a chain is pinned
+   */
+  isPinned(chainId: string): boolean {
+    return this.pins.has(chainId);
+  }
+
+  /**
+   * Remove and free every cached chain (pins are kept)
+   */
+  clear(): void {
+    const chainIds = [...this.entries.keys()];
+    chainIds.forEach((chainId) => this.evict(chainId, 'cleared'));
+  }
+
+  /**
+   * Cached chain IDs (least recently used first)
+   */
+  keys(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  /**
+   * Number of cached chains
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Cache statistics
+   */
+  getStats(): ChainCacheStats {
+    return {
+      size: this.entries.size,
+      capacity: this.capacity,
+      ttlMs: this.ttlMs,
+      pinned: [...this.pins.keys()],
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+    };
+  }
+
+  private unpin(chainId: string): void {
+    const count = this.pins.get(chainId) ?? 0;
+    if (count <= 1) {
+      this.pins.delete(chainId);
+    } else {
+      this.pins.set(chainId, count - 1);
+    }
+  }
+
+  private isExpired(entry: ChainCacheEntry): boolean {
+    return this.ttlMs > 0 && Date.now() - entry.cachedAt >= this.ttlMs;
+  }
+
+  private pruneExpired(): void {
+    if (this.ttlMs === 0) return;
+
+    for (const [chainId, entry] of [...this.entries]) {
+      if (this.isExpired(entry) && !this.isPinned(chainId)) {
+        this.evict(chainId, 'expired');
+      }
+    }
+  }
+
+  /**
+   * Least recently used unpinned chain, never the one just inserted
+   */
+  private findEvictable(exclude: string): string | null {
+    for (const chainId of this.entries.keys()) {
+      if (chainId !== exclude && !this.isPinned(chainId)) {
+        return chainId;
+      }
+    }
+    return null;
+  }
+
+  private evict(chainId: string, reason: ChainEvictionReason): void {
+    const entry = this.entries.get(chainId);
+    if (!entry) return;
+
+    this.entries.delete(chainId);
+    if (reason !== 'cleared') {
+      this.evictions++;
+    }
+    freeChain(chainId, entry.chain);
+
+    logger.debug(`[ChainCache] Evicted chain (${reason}): ${chainId}`);
+    this.onEvict?.(chainId, reason);
+  }
+}
+
+/**
+ * Free a chain's WASM object (a crashed runtime may refuse, which is harmless)
+ */
+function freeChain(chainId: string, chain: Chain): void {
+  try {
+    chain.free();
+  } catch (error) {
+    logger.debug(`[ChainCache] chain.free() failed for ${chainId}`, error);
+  }
+}
@@ -11,7 +11,6 @@ import type {
   Client,
   Wallet,
   Signer,
-  Faucet,
   Application,
   Chain,
 } from '@linera/client';
@@ -25,13 +24,91 @@ import {
   ChainApp,
   StateChangeCallback,
   ILineraClientManager,
+  PersistedPublicChain,
+  RecoveryEventCallback,
+  ReinitOptions,
+  LazyInitConfig,
+  LazyClaimStatus,
+  LineraClientEvents,
+  CacheStats,
+  LineraClientEventName,
+  OperationObserver,
+  OperationInfo,
+  OperationTimeoutConfig,
+  CancellationOptions,
+  LineraDiagnosticsReport,
+  ClaimChainOptions,
+  OwnedChain,
+  ChainOwnership,
+  TransferRequest,
+  NotificationFilter,
+  NotificationHandler,
+  SubscribeOptions,
+  PendingMutation,
 } from './types';
 import { TemporarySigner } from './temporary-signer';
 import { ApplicationClientImpl, ChainApplicationClient } from './application-client';
+import { loadLineraModule, describeModuleSource } from './module-loader';
+import { WalletChainRegistry } from './wallet-chain-registry';
+import { FaucetPool } from './faucet-pool';
+import { RecoverySupervisor } from './recovery';
+import { TypedEventEmitter } from './events';
+import { Mutex } from './mutex';
+import { DiagnosticsRecorder, describeEnvironment } from './diagnostics';
+import { Amount, CHAIN_ACCOUNT_OWNER } from './tokens';
+import { ChainCache } from './chain-cache';
+import { QueryCache } from './query-cache';
+import { PendingMutationRegistry } from './pending-mutations';
+import { NotificationHub } from './notifications';
+import { assertTransition, isReadyMode } from './client-mode';
+import {
+  DEFAULT_OPERATION_TIMEOUTS,
+  createCancellation,
+  withCancellation,
+  type Cancellation,
+} from './cancellation';
+import {
+  LineraError,
+  AbortError,
+  ChainNotOwnedError,
+  FaucetError,
+  NotInitializedError,
+  WalletNotConnectedError,
+  WasmRuntimeError,
+  toError,
+} from './errors';
 import { logger } from '../../utils/logger';
+import {
+  resolveStorage,
+  readJson,
+  writeJson,
+  removeItem,
+  type StorageAdapter,
+} from '../../utils/storage';
 
 type SignerWithAddress = Signer & {address: () => Promise<string>}
 
+const DEFAULT_LAZY_INIT: Required<LazyInitConfig> = {
+  preload: 'immediate',
+  idleTimeoutMs: 2_000,
+};
+
+/**
+ * Chain with its own client for the local signer owning it:
+ * a chain claimed with claimChain(), or a chain created elsewhere whose owners include a local signer.
+ * The client is created on first use.
+ */
+interface OwnedChainClient {
+  chainId: string;
+  owner: string;
+  kind: 'claimed' | 'external';
+  /** Which local signer (and wallet) signs the chain's blocks */
+  signer: 'wallet' | 'public';
+  client: Client | null;
+  chain: Chain | null;
+  pending: Promise<Chain> | null;
+}
+
 /**
  * Main client manager implementation
  */
@@ -50,22 +127,110 @@ export class LineraClientManager implements ILineraClientManager {
   private walletChainId: string | null = null;
   private walletAddress: string | null = null;
 
+  // Additional chains owned by a local signer (claimChain, external chains), one client per chain
+  private ownedChainClients: Map<string, OwnedChainClient> = new Map();
+
   private mode: ClientMode = ClientMode.UNINITIALIZED;
+  private previousMode: ClientMode | null = null;
+  private lastError: Error | null = null;
   private config: ClientConfig;
   private stateListeners: Set<StateChangeCallback> = new Set();
   private lineraModule: LineraModule | null = null;
-  private faucet: Faucet | null = null;
+  // Shared WASM load (preload in lazy mode, reused by initializeReadOnly)
+  private runtimeLoad: Promise<LineraModule> | null = null;
+  private runtimeLoaded = false;
+  private lazy: Required<LazyInitConfig> | null;
+  private walletChainRegistry: WalletChainRegistry | null;
+  private faucetPool: FaucetPool | null;
+  private recovery: RecoverySupervisor;
+  private events: TypedEventEmitter<LineraClientEvents> = new TypedEventEmitter();
+  private operationCounter = 0;
+  private timeouts: Required<OperationTimeoutConfig>;
+  private diagnostics: DiagnosticsRecorder;
 
   // ============================================
   // CACHE LAYER
   // ============================================
-  private chainCache: Map<string, Chain> = new Map();
+  private chainCache: ChainCache;
+  private queryCache: QueryCache;
+  private pendingMutations: PendingMutationRegistry;
+  private notifications: NotificationHub;
   private appCache: Map<string, ApplicationClient> = new Map();
+  // Pins the public chain while application clients built on it are cached
+  private releaseAppChainPins: Array<() => void> = [];
   private cachedWalletChain: Chain | null = null;
-  private readonly MAX_CACHED_CHAINS = 10;
+
+  // In-flight creations, shared by concurrent callers (cache is only filled after the await)
+  private pendingChains: Map<string, Promise<Chain>> = new Map();
+  private pendingApps: Map<string, Promise<ApplicationClient | null>> = new Map();
+  private pendingWalletChain: Promise<Chain> | null = null;
+
+  // Bumped on invalidation so in-flight creations never repopulate a cleared cache
+  private chainCacheGeneration = 0;
+  private appCacheGeneration = 0;
+
+  // Serializes wallet transitions (initialize, connect, disconnect, switch, reinit)
+  private transitionLock = new Mutex();
 
   constructor(config: ClientConfig) {
     this.config = config;
+    this.timeouts = { ...DEFAULT_OPERATION_TIMEOUTS, ...config.timeouts };
+    this.diagnostics = new DiagnosticsRecorder(config.diagnostics);
+    this.lazy = config.lazy
+      ? { ...DEFAULT_LAZY_INIT, ...(config.lazy === true ? {} : config.lazy) }
+      : null;
+    this.walletChainRegistry = config.walletChains === false
+      ? null
+      : new WalletChainRegistry(config.walletChains);
+    if (!config.faucetUrl && !config.existingChains) {
+      throw new LineraError('INVALID_CONFIG', '[ClientManager] Either faucetUrl or existingChains is required');
+    }
+    this.faucetPool = config.faucetUrl
+      ? new FaucetPool(config.faucetUrl, {
+        healthCheck: config.faucetHealthCheck,
+        retry: config.faucetRetry,
+        circuitBreaker: config.faucetCircuitBreaker,
+        onChange: () => this.notifyStateChange(),
+      })
+      : null;
+    this.chainCache = new ChainCache({
+      ...config.chainCache,
+      onEvict: (chainId, reason) => this.events.emit('chainEvicted', { chainId, reason }),
+    });
+    this.notifications = new NotificationHub({
+      resolveChain: (chainId) => this.getNotificationChain(chainId),
+      pinChain: (chainId) => this.chainCache.pin(chainId),
+      canBind: () => isReadyMode(this.mode),
+    });
+    this.queryCache = new QueryCache({
+      ...config.queryCache,
+      subscribeNewBlocks: (chainId, onBlock) => this.subscribe(chainId, 'NewBlock', onBlock),
+      onChange: (change) => this.events.emit('queriesChanged', change),
+    });
+    this.pendingMutations = new PendingMutationRegistry({
+      queryCache: this.queryCache,
+      onChange: (pending) => this.events.emit('pendingMutationsChanged', { pending }),
+    });
+    this.recovery = new RecoverySupervisor(config.recovery, () => this.reinit());
+    this.recovery.onEvent((event) => {
+      switch (event.type) {
+        case 'recovering': this.events.emit('recovering', event); break;
+        case 'recovered': this.events.emit('recovered', event); break;
+        case 'failed':
+          this.events.emit('recoveryFailed', event);
+          this.diagnostics.recordError(event.error, `recovery.${event.reason}`);
+          // Restart budget exhausted: the runtime is unusable until reinit() is called again
+          if (event.reason === 'max_restarts') {
+            // Queued behind the running transition (e.g. a wallet connect) so it ends in a valid mode first
+            void this.transitionLock.runExclusive(async () => {
+              if (this.mode !== ClientMode.UNINITIALIZED) {
+                this.setMode(ClientMode.ERROR, event.error);
+              }
+            });
+          }
+          break;
+      }
+    });
   }
 
   /**
@@ -74,13 +239,19 @@ export class LineraClientManager implements ILineraClientManager {
   getState(): ClientState {
     return {
       mode: this.mode,
-      isInitialized: this.mode !== ClientMode.UNINITIALIZED,
+      previousMode: this.previousMode || undefined,
+      isInitialized: isReadyMode(this.mode),
       hasWallet: this.mode === ClientMode.FULL,
       walletAddress: this.walletAddress || undefined,
       publicAddress: this.publicAddress || undefined,
       publicChainId: this.publicChainId || undefined,
       walletChainId: this.walletChainId || undefined,
-      faucetUrl: this.config.faucetUrl,
+      faucetUrl: this.faucetPool?.getActiveUrl(),
+      runtimeLoaded: this.runtimeLoaded,
+      claimStatus: this.getClaimStatus(),
+      faucetUnavailable: this.faucetPool?.getUnavailable() || undefined,
+      lastError: this.lastError || undefined,
+      error: this.lastError || undefined,
     };
   }
 
@@ -105,93 +276,289 @@ export class LineraClientManager implements ILineraClientManager {
     return this.walletWallet || this.publicWallet;
   }
 
+  /**
+   * Pin a chain so the chain cache never evicts (and frees) it
+   * Pins are reference counted and survive reinit.
+   *
+   * @param chainId - Chain to keep cached (may not be loaded yet)
+   * @returns Function releasing the pin
+   */
+  pinChain(chainId: string): () => void {
+    return this.chainCache.pin(chainId);
+  }
+
+  /**
+   * Get cache statistics
+   */
+  getCacheStats(): CacheStats {
+    return {
+      chains: this.chainCache.getStats(),
+      queries: this.queryCache.getStats(),
+      applications: this.appCache.size,
+    };
+  }
+
+  /**
+   * Drop cached query results of an application (`queryCache` must be enabled)
+   *
+   * @param appId - Application whose results are dropped
+   * @param pattern - Only drop queries whose text contains this string or matches this RegExp
+   * @returns Number of dropped results
+   *
+   * @example
+   * ```typescript
+   * await app.wallet?.mutate({ query: 'mutation { placeBid(amount: "5") }' });
+   * clientManager.invalidateQueries(AUCTION_APP_ID, /auctions/);
+   * ```
+   */
+  invalidateQueries(appId: string, pattern?: string | RegExp): number {
+    return this.queryCache.invalidate(appId, pattern);
+  }
+
+  /**
+   * Wallet mutations that have not settled yet, oldest first
+   * (`pendingMutationsChanged` is emitted whenever this list changes)
+   *
+   * @param appId - Only return the mutations of this application
+   */
+  getPendingMutations(appId?: string): PendingMutation[] {
+    return this.pendingMutations.list(appId);
+  }
+
+  /**
+   * Export a serializable diagnostics report (mode history, chains, caches,
+   * module, environment, recent errors and timings) to attach to bug reports
+   *
+   * @example
+   * ```typescript
+   * const report = clientManager.exportDiagnostics();
+   * attachToBugReport(JSON.stringify(report, null, 2));
+   * ```
+   */
+  exportDiagnostics(): LineraDiagnosticsReport {
+    const chainStats = this.chainCache.getStats();
+
+    return {
+      generatedAt: new Date().toISOString(),
+      mode: this.mode,
+      previousMode: this.previousMode,
+      chains: {
+        publicChainId: this.publicChainId,
+        publicAddress: this.publicAddress,
+        walletChainId: this.walletChainId,
+        walletAddress: this.walletAddress,
+        claimedChainIds: [...this.ownedChainClients.values()]
+          .filter((entry) => entry.kind === 'claimed')
+          .map((entry) => entry.chainId),
+      },
+      caches: {
+        chains: { ...chainStats, chainIds: this.chainCache.keys() },
+        queries: this.queryCache.getStats(),
+        applications: { size: this.appCache.size, appIds: [...this.appCache.keys()] },
+        walletChainCached: this.cachedWalletChain !== null,
+      },
+      faucet: {
+        url: this.faucetPool?.getActiveUrl() ?? null,
+        unavailable: this.faucetPool?.getUnavailable() ?? null,
+      },
+      module: {
+        loaded: this.runtimeLoaded,
+        source: describeModuleSource(this.config.moduleLoader),
+        version: typeof this.lineraModule?.version === 'string' ? this.lineraModule.version : null,
+      },
+      environment: describeEnvironment(),
+      recovery: {
+        enabled: this.recovery.isEnabled(),
+        recovering: this.recovery.isRecovering(),
+      },
+      ...this.diagnostics.snapshot(),
+    };
+  }
+
   /**
    * Initialize in read-only mode with temporary wallet
    * Claims a PUBLIC chain for queries and cross-chain subscriptions
+   * Concurrent calls are serialized; later calls return once initialized.
+   *
+   * @param options - `signal` aborts and `timeoutMs` (default `timeouts.initializeMs`) bounds
+   *   the initialization, including the wait for a concurrent transition
+   * @throws AbortError or TimeoutError; partial resources are released first
    */
-  async initializeReadOnly(): Promise<void> {
+  async initializeReadOnly(options?: CancellationOptions): Promise<void> {
+    const cancellation = createCancellation('Initialization', {
+      signal: options?.signal,
+      timeoutMs: options?.timeoutMs ?? this.timeouts.initializeMs,
+    });
+
+    try {
+      await cancellation.guard(
+        this.transitionLock.runExclusive(() => this.doInitializeReadOnly(cancellation))
+      );
+    } finally {
+      cancellation.dispose();
+    }
+  }
+
+  private async doInitializeReadOnly(
+    cancellation: Cancellation = createCancellation('Initialization', {})
+  ): Promise<void> {
     if (typeof window === 'undefined') {
-      throw new Error('Linera client can only be initialized on the client side');
+      throw new LineraError('INVALID_STATE', 'Linera client can only be initialized on the client side');
     }
 
-    if (this.mode !== ClientMode.UNINITIALIZED) {
+    if (isReadyMode(this.mode)) {
       logger.debug('[ClientManager] Already initialized');
       return;
     }
 
-    try {
-      logger.info('[ClientManager] Initializing read-only mode...');
+    // Cancelled while waiting for the transition lock: nothing to undo
+    cancellation.throwIfCancelled();
 
-      // Load Linera module
-      this.lineraModule = await this.loadLinera();
-      const { Client, Faucet, default: init } = this.lineraModule;
+    this.setMode(ClientMode.INITIALIZING);
+    this.diagnostics.startInitialization();
+    // Each step is guarded: a hung faucet or validator rejects as soon as the call is cancelled
+    const step = <T>(promise: Promise<T>): Promise<T> => cancellation.guard(promise);
 
-      // Initialize WASM
-      await init();
+    try {
+      logger.info('[ClientManager] Initializing read-only mode...');
 
-      // Create faucet
-      this.faucet = new Faucet(this.config.faucetUrl);
+      // Load Linera module and initialize WASM (reuses a preloaded runtime)
+      const { Faucet } = await step(this.ensureRuntime());
 
-      if (!this.faucet) {
-        logger.error('[ClientManager] Failed to instantiate Faucet');
-        throw new Error('[ClientManager] Failed to instantiate Faucet');
-      }
+      // Attach faucet pool (endpoint is chosen on first faucet call)
+      this.faucetPool?.attach((url) => new Faucet(url));
 
-      // Create public wallet from faucet
-      this.publicWallet = await this.faucet.createWallet();
+      // Create public wallet (faucet, or existingChains.createWallet)
+      this.publicWallet = await step(this.createWallet(cancellation.signal));
 
-      // Create temporary signer for public chain
-      const tempSigner = new TemporarySigner(this.config.readOnlyWallet);
+      // Public signer: configured owner of the existing public chain, else a temporary signer
+      const existing = this.config.existingChains;
+      const tempSigner = existing?.publicSigner ?? new TemporarySigner(this.config.readOnlyWallet);
       this.publicSigner = tempSigner;
 
       // Get temporary address
-      const tempOwner = await tempSigner.address();
+      const tempOwner = await step<string>(tempSigner.address());
       this.publicAddress = tempOwner;
 
-      // Claim PUBLIC chain for queries and subscriptions
-      logger.info('[ClientManager] Claiming public chain for queries/subscriptions...');
-      this.publicChainId = await this.faucet.claimChain(this.publicWallet, tempOwner);
-      logger.info('[ClientManager] Public chain claimed:', this.publicChainId);
-
-      // Create public client
-      // Note: Client constructor may return a Promise in WASM environment
-      const clientInstance = new Client(
-        this.publicWallet,
-        this.publicSigner,
-        {
-          ...this.config.init
-        }
-      );
-      this.publicClient = await Promise.resolve(clientInstance);
+      // Use the configured chain, else reuse the persisted one if possible (no faucet claim)
+      const restored = existing
+        ? await step(this.attachPublicChain(existing.publicChainId, tempOwner))
+        : await step(this.restorePublicChain(tempOwner));
+
+      if (!restored) {
+        const faucetPool = this.requireFaucetPool();
 
-      this.mode = ClientMode.READ_ONLY;
-      this.notifyStateChange();
+        // Claim PUBLIC chain for queries and subscriptions
+        logger.info('[ClientManager] Claiming public chain for queries/subscriptions...');
+        this.publicChainId = await step(this.claimFaucetChain(this.publicWallet, tempOwner, cancellation.signal));
+        logger.info('[ClientManager] Public chain claimed:', this.publicChainId);
+
+        // Create public client
+        this.publicClient = await step(this.createClient(this.publicWallet, this.publicSigner));
+        this.persistPublicChain(this.publicChainId, tempOwner);
+
+        this.events.emit('publicChainClaimed', {
+          chainId: this.publicChainId,
+          owner: tempOwner,
+          faucetUrl: faucetPool.getActiveUrl(),
+        });
+      }
+
+      cancellation.throwIfCancelled();
+      this.setMode(ClientMode.READ_ONLY);
+      this.diagnostics.finishInitialization();
+
+      this.events.emit('initialized', {
+        publicChainId: this.publicChainId as string,
+        publicAddress: tempOwner,
+        restored,
+      });
 
       logger.info('[ClientManager] Read-only mode and system mutation initialized successfully');
       logger.info('[ClientManager] Public chain available for queries and subscriptions');
     } catch (error) {
-      this.mode = ClientMode.UNINITIALIZED;
       const err = error instanceof Error ? error : new Error(String(error));
-      this.notifyStateChange({ error: err });
-      throw new Error(`Failed to initialize read-only client: ${err.message}`);
+
+      // Drop partially created resources so a retry starts clean
+      try {
+        this.releaseResources();
+      } catch (releaseErr) {
+        logger.debug('[ClientManager] Releasing partial resources failed', releaseErr);
+      }
+
+      // An abort is the caller's choice, not a failure: back to uninitialized so a retry is clean
+      if (err instanceof AbortError) {
+        logger.info('[ClientManager] Initialization aborted');
+        this.setMode(ClientMode.UNINITIALIZED);
+      } else {
+        this.setMode(ClientMode.ERROR, err);
+      }
+
+      // Keep typed errors so the UI can tell a faucet outage or a timeout from a generic failure
+      if (err instanceof LineraError) throw err;
+      throw new LineraError('INITIALIZATION_FAILED', `Failed to initialize read-only client: ${err.message}`, { cause: err });
+    }
+  }
+
+  /**
+   * Load and initialize the WASM runtime without creating wallets or claiming chains
+   * initializeReadOnly() reuses the loaded runtime.
+   */
+  async preload(): Promise<void> {
+    if (typeof window === 'undefined') {
+      throw new LineraError('INVALID_STATE', 'Linera client can only be initialized on the client side');
+    }
+    await this.ensureRuntime();
+  }
+
+  /**
+   * Start lazy mode: preload the runtime according to `lazy.preload`;
+   * the public wallet and chain are claimed on first getApplication/getChain
+   */
+  initializeLazy(): void {
+    const policy = this.lazy ?? DEFAULT_LAZY_INIT;
+
+    const preload = () => {
+      this.preload().catch((error) => {
+        // Not fatal: loading is retried by the first claim
+        logger.warn('[ClientManager] Runtime preload failed, will retry on first use:', error);
+      });
+    };
+
+    switch (policy.preload) {
+      case 'immediate':
+        preload();
+        break;
+      case 'idle':
+        scheduleIdle(preload, policy.idleTimeoutMs);
+        break;
+      case 'none':
+        break;
     }
+
+    logger.info(`[ClientManager] Lazy mode (preload: ${policy.preload}), public chain claimed on first use`);
   }
 
   /**
    * Connect MetaMask wallet (claims WALLET chain for user mutations)
    * Public chain remains active for queries and subscriptions
+   * Serialized with other wallet transitions, so overlapping calls never claim twice.
    */
   async connectWallet(metamaskSigner: SignerWithAddress): Promise<void> {
+    return this.transitionLock.runExclusive(() => this.doConnectWallet(metamaskSigner));
+  }
+
+  private async doConnectWallet(metamaskSigner: SignerWithAddress): Promise<void> {
     if (typeof window === 'undefined') {
-      throw new Error('Wallet connection only available on client side');
+      throw new LineraError('INVALID_STATE', 'Wallet connection only available on client side');
     }
 
     try {
       logger.info('[ClientManager] Connecting wallet...');
 
       // Ensure we're initialized (public chain exists)
-      if (this.mode === ClientMode.UNINITIALIZED) {
-        await this.initializeReadOnly();
+      if (!isReadyMode(this.mode)) {
+        await this.doInitializeReadOnly();
       }
 
       // Get MetaMask address
@@ -209,14 +576,19 @@ export class LineraClientManager implements ILineraClientManager {
 
         if (signerChanged) {
           this.walletSigner = metamaskSigner;
-          this.mode = ClientMode.FULL;
           this.notifyStateChange();
         }
 
         return;
       }
 
-      // Cleanup old wallet client if switching wallets
+      // Remember the replaced account (if any) for the walletSwitched event
+      const previousAddress = this.mode === ClientMode.FULL ? this.walletAddress : null;
+
+      this.setMode(ClientMode.CONNECTING_WALLET);
+
+      // Cleanup old wallet client (and its claimed chains) if switching wallets
+      this.releaseOwnedChainClients('wallet');
       if (this.walletClient) {
         (this.walletClient).free();
         this.walletClient = null;
@@ -226,50 +598,81 @@ export class LineraClientManager implements ILineraClientManager {
         this.walletWallet = null;
       }
 
-      // Create wallet wallet from faucet
-      if (!this.faucet) {
-        const { Faucet, default: init } = this.lineraModule as LineraModule;
-        await init();
-        this.faucet = new Faucet(this.config.faucetUrl);
-      }
-
-      this.walletWallet = await this.faucet!.createWallet();
-
-      // Claim WALLET chain for user mutations
-      logger.info('[ClientManager] Claiming wallet chain for user mutations...');
-      this.walletChainId = await this.faucet!.claimChain(this.walletWallet, owner);
-      logger.info('[ClientManager] Wallet chain claimed:', this.walletChainId);
+      // Create wallet wallet (faucet, or existingChains.createWallet); the faucet pool is attached by initializeReadOnly
+      this.walletWallet = await this.createWallet();
 
       // Update wallet state
       this.walletSigner = metamaskSigner;
       this.walletAddress = owner;
 
-      // Create wallet client
-      const { Client } = this.lineraModule as LineraModule;
-      // Note: Client constructor may return a Promise in WASM environment
-      const clientInstance = new Client(
-        this.walletWallet as Wallet,
-        this.walletSigner,
-        {
-          ...this.config.init
+      // Use the chain configured for this owner, else the one previously claimed (no faucet claim)
+      const configuredChainId = this.findConfiguredWalletChain(owner);
+      const verifiedChain = configuredChainId
+        ? await this.attachWalletChain(configuredChainId, owner)
+        : await this.restoreWalletChain(owner);
+
+      if (!verifiedChain) {
+        if (!this.faucetPool) {
+          throw new FaucetError(`No wallet chain configured for ${owner} and no faucet to claim one`);
         }
-      );
-      this.walletClient = await Promise.resolve(clientInstance);
+
+        // Claim WALLET chain for user mutations
+        logger.info('[ClientManager] Claiming wallet chain for user mutations...');
+        this.walletChainId = await this.claimFaucetChain(this.walletWallet, owner);
+        logger.info('[ClientManager] Wallet chain claimed:', this.walletChainId);
+
+        // Create wallet client
+        this.walletClient = await this.createClient(this.walletWallet, this.walletSigner);
+        this.walletChainRegistry?.set(owner, this.walletChainId, this.faucetPool.getActiveUrl());
+      }
+
+      // Chains claimed for this owner in earlier sessions (clients are created on first use)
+      this.restoreClaimedChains(owner);
 
       // Invalidate application cache BEFORE notifying state change
       // This prevents race conditions where listeners receive stale cached data
-      this.invalidateAppCache();
-
-      this.mode = ClientMode.FULL;
-      this.notifyStateChange();
+      this.invalidateAppCache('walletConnected');
+      this.cachedWalletChain = verifiedChain;
+
+      this.setMode(ClientMode.FULL);
+
+      const walletChainId = this.walletChainId as string;
+      if (previousAddress) {
+        this.events.emit('walletSwitched', {
+          previousAddress,
+          address: owner,
+          chainId: walletChainId,
+          reusedChain: verifiedChain !== null,
+        });
+      } else {
+        this.events.emit('walletConnected', {
+          address: owner,
+          chainId: walletChainId,
+          reusedChain: verifiedChain !== null,
+        });
+      }
 
       logger.info('[ClientManager] Wallet connected successfully');
       logger.info('[ClientManager] Public chain (queries/subscriptions):', this.publicChainId);
       logger.info('[ClientManager] Wallet chain (user mutations):', this.walletChainId);
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
-      this.notifyStateChange({ error: err });
-      throw new Error(`Failed to connect wallet: ${err.message}`);
+
+      if (this.mode === ClientMode.CONNECTING_WALLET) {
+        // The previous wallet (if any) is already released: fall back to the public chain
+        this.releaseWalletResources();
+        this.invalidateAppCache('walletDisconnected');
+        this.setMode(ClientMode.READ_ONLY, err);
+      } else if (this.mode !== ClientMode.ERROR) {
+        // Failed before any wallet resource changed (e.g. signer rejected)
+        this.lastError = err;
+        this.diagnostics.recordError(err, 'connectWallet');
+        this.notifyStateChange();
+      }
+
+      // Keep typed errors (e.g. SignatureRejectedError) so the UI can branch on them
+      if (err instanceof LineraError) throw err;
+      throw new LineraError('WALLET_CONNECTION_FAILED', `Failed to connect wallet: ${err.message}`, { cause: err });
     }
   }
 
@@ -277,27 +680,21 @@ export class LineraClientManager implements ILineraClientManager {
    * Disconnect wallet (remove wallet chain, keep public chain active)
    */
   async disconnectWallet(): Promise<void> {
+    return this.transitionLock.runExclusive(() => this.doDisconnectWallet());
+  }
+
+  private async doDisconnectWallet(): Promise<void> {
     if (this.mode !== ClientMode.FULL) {
       logger.debug('[ClientManager] No wallet to disconnect');
       return;
     }
 
     logger.info('[ClientManager] Disconnecting wallet...');
+    this.setMode(ClientMode.DISCONNECTING);
+    const address = this.walletAddress;
 
     // Cleanup ONLY wallet chain resources (keep public chain!)
-    if (this.walletClient) {
-      (this.walletClient).free();
-    }
-    if (this.walletWallet) {
-      this.walletWallet.free();
-    }
-
-    // Clear ONLY wallet state
-    this.walletClient = null;
-    this.walletWallet = null;
-    this.walletSigner = null;
-    this.walletChainId = null;
-    this.walletAddress = null;
+    this.releaseWalletResources();
 
     // Public chain resources remain UNTOUCHED
     // this.publicClient - still active
@@ -306,11 +703,14 @@ export class LineraClientManager implements ILineraClientManager {
 
     // Invalidate application cache BEFORE notifying state change
     // This prevents race conditions where listeners receive stale cached data
-    this.invalidateAppCache();
+    this.invalidateAppCache('walletDisconnected');
 
     // Revert to READ_ONLY mode (public chain still active)
-    this.mode = ClientMode.READ_ONLY;
-    this.notifyStateChange();
+    this.setMode(ClientMode.READ_ONLY);
+
+    if (address) {
+      this.events.emit('walletDisconnected', { address });
+    }
 
     logger.info('[ClientManager] Wallet disconnected');
     logger.info('[ClientManager] Public chain still active:', this.publicChainId);
@@ -318,10 +718,29 @@ export class LineraClientManager implements ILineraClientManager {
 
   /**
    * Switch to different MetaMask wallet
+   * Reuses the new owner's previously claimed wallet chain when known
    */
   async switchWallet(newSigner: SignerWithAddress): Promise<void> {
-    logger.info('[ClientManager] Switching wallet...');
-    await this.connectWallet(newSigner);
+    await this.transitionLock.runExclusive(() => {
+      logger.info('[ClientManager] Switching wallet...');
+      return this.doConnectWallet(newSigner);
+    });
+  }
+
+  /**
+   * Close the faucet circuit breaker so the next call hits the faucet immediately
+   * Use for a user-initiated "retry now"
+   */
+  resetFaucetAvailability(): void {
+    this.faucetPool?.reset();
+  }
+
+  /**
+   * Forget the wallet chain remembered for an owner
+   * The next connection of that owner claims a new wallet chain
+   */
+  forgetWalletChain(owner: string): void {
+    this.walletChainRegistry?.remove(owner);
   }
 
   /**
@@ -338,6 +757,13 @@ export class LineraClientManager implements ILineraClientManager {
       return null;
     }
 
+    try {
+      await this.claimIfLazy();
+    } catch (error) {
+      logger.error('[ClientManager] Lazy claim failed:', error);
+      return null;
+    }
+
     if (!this.publicClient) {
       logger.warn('[ClientManager] Client not initialized');
       return null;
@@ -350,12 +776,35 @@ export class LineraClientManager implements ILineraClientManager {
       return cached;
     }
 
+    // Join an in-flight creation for the same app (e.g. many components mounting at once)
+    const pending = this.pendingApps.get(appId);
+    if (pending) {
+      logger.debug(`[ClientManager] Application creation in flight, joining: ${appId}`);
+      return pending;
+    }
+
     // Cache miss - create new application client
     logger.debug(`[ClientManager] Application cache miss: ${appId}, creating...`);
 
+    const creation = this.createApplicationClient(appId).finally(() => {
+      if (this.pendingApps.get(appId) === creation) {
+        this.pendingApps.delete(appId);
+      }
+    });
+    this.pendingApps.set(appId, creation);
+
+    return creation;
+  }
+
+  /**
+   * Create and cache an application client (called once per in-flight appId)
+   */
+  private async createApplicationClient(appId: string): Promise<ApplicationClient | null> {
+    const generation = this.appCacheGeneration;
+
     try {
       if (!this.publicChainId) {
-        throw new Error('Public chain not initialized');
+        throw new NotInitializedError('Public chain not initialized');
       }
 
       // Get application instance from public chain (uses chain cache)
@@ -378,15 +827,28 @@ export class LineraClientManager implements ILineraClientManager {
         this.walletChainId || undefined,
         this.walletAddress || undefined,
         this.publicAddress || undefined,
+        this.operationObserver,
+        this.timeouts,
+        this.queryCache.isEnabled() ? this.queryCache : undefined,
+        this.pendingMutations,
+        this.config.queryBatching,
       );
 
-      // Cache the application client
+      // Wallet state changed while creating: the client is stale, build a fresh one
+      if (generation !== this.appCacheGeneration) {
+        logger.debug(`[ClientManager] Application cache invalidated during creation, retrying: ${appId}`);
+        return this.getApplication(appId);
+      }
+
+      // Cache the application client; its public chain must outlive it
       this.appCache.set(appId, appClient);
+      this.releaseAppChainPins.push(this.chainCache.pin(this.publicChainId));
       logger.debug(`[ClientManager] Application cached: ${appId} (total: ${this.appCache.size})`);
 
       return appClient;
     } catch (error) {
       logger.error('[ClientManager] Failed to get application:', error);
+      this.handleOperationError(error, 'getApplication');
       return null;
     }
   }
@@ -406,29 +868,61 @@ export class LineraClientManager implements ILineraClientManager {
    * @returns Chain instance from cache or newly created
    */
   async getChain(chainId: string): Promise<Chain> {
+    await this.claimIfLazy();
+
     if (!this.publicClient) {
-      throw new Error('[ClientManager] Public client not initialized. Call initializeReadOnly() first.');
+      throw new NotInitializedError('[ClientManager] Public client not initialized. Call initializeReadOnly() first.');
     }
 
-    // Check cache first
+    // Check cache first (refreshes recency)
     const cached = this.chainCache.get(chainId);
     if (cached) {
       logger.debug(`[ClientManager] Chain cache hit: ${chainId}`);
       return cached;
     }
 
+    // Join an in-flight creation for the same chain
+    const pending = this.pendingChains.get(chainId);
+    if (pending) {
+      logger.debug(`[ClientManager] Chain creation in flight, joining: ${chainId}`);
+      return pending;
+    }
+
     // Cache miss - create via publicClient
     logger.debug(`[ClientManager] Chain cache miss: ${chainId}, creating...`);
-    const chain = await this.publicClient.chain(chainId);
+    const creation = this.createChain(this.publicClient, chainId).finally(() => {
+      if (this.pendingChains.get(chainId) === creation) {
+        this.pendingChains.delete(chainId);
+      }
+    });
+    this.pendingChains.set(chainId, creation);
+
+    return creation;
+  }
+
+  /**
+   * Create and cache a chain (called once per in-flight chainId)
+   */
+  private async createChain(client: Client, chainId: string): Promise<Chain> {
+    const generation = this.chainCacheGeneration;
 
-    // Evict oldest if cache is full (LRU)
-    if (this.chainCache.size >= this.MAX_CACHED_CHAINS) {
-      this.evictOldestChain();
+    let chain: Chain;
+    try {
+      chain = await client.chain(chainId);
+    } catch (error) {
+      this.handleOperationError(error, 'getChain');
+      throw error;
+    }
+
+    // Caches were cleared meanwhile (destroy/reinit): hand the chain out but don't cache it
+    if (generation !== this.chainCacheGeneration) {
+      return chain;
     }
 
-    // Cache the chain
+    // Cache the chain (evicts the least recently used unpinned chains)
     this.chainCache.set(chainId, chain);
     logger.debug(`[ClientManager] Chain cached: ${chainId} (total: ${this.chainCache.size})`);
+    this.events.emit('chainCached', { chainId, size: this.chainCache.size });
 
     return chain;
   }
@@ -458,25 +952,37 @@ export class LineraClientManager implements ILineraClientManager {
    * ```
    */
   async getChainApplication(chainId: string, appId: string): Promise<ChainApp | null> {
+    try {
+      await this.claimIfLazy();
+    } catch (error) {
+      logger.error('[ClientManager] Lazy claim failed:', error);
+      return null;
+    }
+
     if (!this.publicClient) {
       logger.warn('[ClientManager] Client not initialized');
       return null;
     }
 
     try {
-      // Get chain instance (uses existing chain cache)
-      const chain = await this.getChain(chainId);
+      // Load the chain through the client of the signer owning it (if any)
+      const { chain, ownership } = await this.resolveChainAccess(chainId);
 
       // Get application from the chain
       const app = await chain.application(appId);
 
-      // Get chain owner address (use public address as fallback)
-      const address = this.publicAddress || 'unknown';
-
       // Create and return wrapped client (lightweight wrapper, no caching needed)
-      return new ChainApplicationClient(appId, app, chainId, address);
+      return new ChainApplicationClient(
+        appId,
+        app,
+        chainId,
+        ownership,
+        this.operationObserver,
+        this.timeouts
+      );
     } catch (error) {
       logger.error('[ClientManager] Failed to get chain application:', error);
+      this.handleOperationError(error, 'getChainApplication');
       return null;
     }
   }
@@ -485,11 +991,11 @@ export class LineraClientManager implements ILineraClientManager {
    * Get wallet chain instance (uses walletClient with caching)
    *
    * @returns Cached wallet chain instance
-   * @throws Error if wallet client or wallet chain ID is not available
+   * @throws WalletNotConnectedError if wallet client or wallet chain ID is not available
    */
   private async getWalletChain(): Promise<Chain> {
     if (!this.walletClient || !this.walletChainId) {
-      throw new Error('[ClientManager] Wallet client not initialized. Connect wallet first.');
+      throw new WalletNotConnectedError('[ClientManager] Wallet client not initialized. Connect wallet first.');
     }
 
     // Return cached wallet chain if available
@@ -498,97 +1004,569 @@ export class LineraClientManager implements ILineraClientManager {
       return this.cachedWalletChain;
     }
 
+    if (this.pendingWalletChain) {
+      return this.pendingWalletChain;
+    }
+
     // Cache miss - create via walletClient
     logger.debug(`[ClientManager] Wallet chain cache miss: ${this.walletChainId}, creating...`);
-    this.cachedWalletChain = await this.walletClient.chain(this.walletChainId);
-    logger.debug(`[ClientManager] Wallet chain cached: ${this.walletChainId}`);
-
-    return this.cachedWalletChain;
-  }
+    const walletChainId = this.walletChainId;
+    const generation = this.appCacheGeneration;
 
-  /**
-   * Subscribe to state changes
-   */
-  onStateChange(callback: StateChangeCallback): () => void {
-    this.stateListeners.add(callback);
+    const creation = this.walletClient.chain(walletChainId).then((chain) => {
+      if (generation === this.appCacheGeneration) {
+        this.cachedWalletChain = chain;
+        logger.debug(`[ClientManager] Wallet chain cached: ${walletChainId}`);
+      }
+      return chain;
+    }).finally(() => {
+      if (this.pendingWalletChain === creation) {
+        this.pendingWalletChain = null;
+      }
+    });
+    this.pendingWalletChain = creation;
 
-    // Return unsubscribe function
-    return () => {
-      this.stateListeners.delete(callback);
-    };
+    return creation;
   }
 
+  // ============================================
+  // OWNED CHAINS
+  // ============================================
+
   /**
-   * Destroy and cleanup both chains
+   * Claim an additional chain for the connected wallet (e.g. one chain per game room)
+   * The chain gets its own wallet client, so its blocks are signed by the wallet signer.
+   * Claimed chains are remembered per owner and restored on the next connect.
+   *
+   * @throws WalletNotConnectedError if no wallet is connected
+   * @throws FaucetError if no faucet is configured or the claim failed
+   * @throws LineraError (OWNER_MISMATCH) if `owner` is not the connected wallet
+   *
+   * @example
+   * ```typescript
+   * const { chainId } = await clientManager.claimChain();
+   * const room = await clientManager.getChainApplication(chainId, GAME_APP_ID);
+   * await room?.mutate({ query: 'mutation { join }' });
+   * ```
    */
-  async destroy(): Promise<void> {
-    logger.info('[ClientManager] Destroying client...');
-
-    // Clear all caches first
-    this.clearAllCaches();
+  async claimChain(options?: ClaimChainOptions): Promise<OwnedChain> {
+    return this.transitionLock.runExclusive(() => this.doClaimChain(options));
+  }
 
-    // Cleanup public chain
-    if (this.publicClient) {
-      (this.publicClient).free();
-    }
-    if (this.publicWallet) {
-      this.publicWallet.free();
+  private async doClaimChain(options?: ClaimChainOptions): Promise<OwnedChain> {
+    if (this.mode !== ClientMode.FULL || !this.walletWallet || !this.walletAddress) {
+      throw new WalletNotConnectedError('[ClientManager] Connect a wallet before claiming chains');
     }
 
-    // Cleanup wallet chain
-    if (this.walletClient) {
-      (this.walletClient).free();
-    }
-    if (this.walletWallet) {
-      this.walletWallet.free();
+    const owner = this.walletAddress;
+    if (options?.owner && options.owner.toLowerCase() !== owner.toLowerCase()) {
+      throw new LineraError(
+        'OWNER_MISMATCH',
+        `[ClientManager] Cannot claim a chain for ${options.owner}: only the connected wallet (${owner}) can sign for it`
+      );
     }
 
-    this.publicClient = null;
-    this.publicWallet = null;
-    this.publicSigner = null;
-    this.publicChainId = null;
-    this.publicAddress = null;
+    const faucetPool = this.requireFaucetPool();
 
-    this.walletClient = null;
-    this.walletWallet = null;
-    this.walletSigner = null;
-    this.walletChainId = null;
-    this.walletAddress = null;
+    logger.info('[ClientManager] Claiming additional chain for', owner);
+    const chainId = await this.claimFaucetChain(this.walletWallet, owner);
+    const faucetUrl = faucetPool.getActiveUrl();
+    logger.info('[ClientManager] Additional chain claimed:', chainId);
 
-    this.mode = ClientMode.UNINITIALIZED;
-    this.stateListeners.clear();
+    this.ownedChainClients.set(chainId, createOwnedChainClient(chainId, owner, 'claimed', 'wallet'));
+    this.walletChainRegistry?.addClaimedChain(owner, chainId, faucetUrl);
 
+    this.events.emit('chainClaimed', { chainId, owner, faucetUrl });
     this.notifyStateChange();
+
+    return { chainId, owner, kind: 'claimed' };
   }
 
   /**
-   * Robust reinit: attempt a full deterministic restart.
+   * List chains owned by the manager's signers
+   * (public chain, wallet chain, chains claimed with claimChain() and
+   * chains created elsewhere that were found to be owned by a local signer)
+   */
+  listOwnedChains(): OwnedChain[] {
+    const chains: OwnedChain[] = [];
+
+    if (this.publicChainId && this.publicAddress) {
+      chains.push({ chainId: this.publicChainId, owner: this.publicAddress, kind: 'public' });
+    }
+    if (this.walletChainId && this.walletAddress) {
+      chains.push({ chainId: this.walletChainId, owner: this.walletAddress, kind: 'wallet' });
+    }
+    this.ownedChainClients.forEach(({ chainId, owner, kind }) => {
+      chains.push({ chainId, owner, kind });
+    });
+
+    return chains;
+  }
+
+  /**
+   * Find the owners of a chain and load it through the client of the local signer owning it
    *
-   * Strategy:
-   * 1. Try a best-effort destroy (don't let its errors stop progress).
-   * 2. Force-clear any lingering references (free() where available).
-   * 3. Reload the linera module and init the wasm (init()).
-   * 4. Recreate public client (and reconnect wallet signer if present).
-   * 5. If anything irrecoverable happens, perform a hard reload.
+   * Chains no local signer owns are loaded from the public chain cache:
+   * queries work, mutations are refused with ChainNotOwnedError.
    */
-  async reinit(): Promise<void> {
-    logger.info('[ClientManager] reinit(): starting full restart');
+  private async resolveChainAccess(chainId: string): Promise<{ chain: Chain; ownership: ChainOwnership }> {
+    const local = await this.getOwnedChain(chainId);
+    if (local) {
+      return { chain: local.chain, ownership: { owners: [local.owner], signer: local.owner } };
+    }
 
-    // Preserve wallet signer so we can try to reconnect it after reinit
-    const previousWalletSigner = this.walletSigner;
-    const hadWallet = !!previousWalletSigner;
+    const chain = await this.getChain(chainId);
+    const owners = await this.lookupChainOwners(chainId, chain);
+    const localOwner = this.findLocalSigner(owners);
 
-    // 1) Best-effort destroy but never abort on error
-    try {
-      // destroy() may throw if wasm is corrupted — catch and proceed
-      await this.destroy();
-    } catch (destroyErr) {
-      logger.warn('[ClientManager] reinit(): destroy() threw, continuing anyway', destroyErr);
-      // proceed to forced cleanup below
+    if (!localOwner) {
+      logger.debug(`[ClientManager] No local signer owns chain ${chainId} (owners: ${owners.join(', ') || 'unknown'})`);
+      return { chain, ownership: { owners, signer: null } };
+    }
+
+    logger.info(`[ClientManager] Chain ${chainId} is owned by the ${localOwner.signer} signer, using its client`);
+    const entry = createOwnedChainClient(chainId, localOwner.owner, 'external', localOwner.signer);
+    this.ownedChainClients.set(chainId, entry);
+
+    return {
+      chain: await this.getOwnedChainClient(entry),
+      ownership: { owners, signer: localOwner.owner },
+    };
+  }
+
+  /**
+   * Owners of a chain: from `resolveChainOwners` if configured, else the chain's identity
+   *
+   * @returns Owner addresses (empty if they could not be determined)
+   */
+  private async lookupChainOwners(chainId: string, chain: Chain): Promise<string[]> {
+    if (this.config.resolveChainOwners) {
+      try {
+        return await this.config.resolveChainOwners(chainId);
+      } catch (error) {
+        logger.warn(`[ClientManager] resolveChainOwners failed for ${chainId}, falling back to chain identity:`, error);
+      }
+    }
+
+    try {
+      const identity = await chain.identity();
+      return identity ? [identity] : [];
+    } catch (error) {
+      logger.debug(`[ClientManager] Could not read the owner of chain ${chainId}`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Local signer among the given owners (the wallet signer first)
+   */
+  private findLocalSigner(owners: string[]): { owner: string; signer: 'wallet' | 'public' } | null {
+    const lowercased = owners.map((owner) => owner.toLowerCase());
+
+    if (this.walletAddress && lowercased.includes(this.walletAddress.toLowerCase())) {
+      return { owner: this.walletAddress, signer: 'wallet' };
+    }
+    if (this.publicAddress && lowercased.includes(this.publicAddress.toLowerCase())) {
+      return { owner: this.publicAddress, signer: 'public' };
+    }
+    return null;
+  }
+
+  /**
+   * Get a chain through the client of the signer owning it
+   *
+   * @returns The chain and its owner, or null if no local signer is known to own the chain
+   */
+  private async getOwnedChain(chainId: string): Promise<{ chain: Chain; owner: string } | null> {
+    if (chainId === this.walletChainId && this.walletAddress) {
+      return { chain: await this.getWalletChain(), owner: this.walletAddress };
+    }
+
+    const entry = this.ownedChainClients.get(chainId);
+    if (entry) {
+      return { chain: await this.getOwnedChainClient(entry), owner: entry.owner };
+    }
+
+    if (chainId === this.publicChainId && this.publicAddress) {
+      return { chain: await this.getChain(chainId), owner: this.publicAddress };
+    }
+
+    return null;
+  }
+
+  /**
+   * Get a chain with its own client, creating the client on first use
+   * (concurrent callers share the creation)
+   */
+  private getOwnedChainClient(entry: OwnedChainClient): Promise<Chain> {
+    if (entry.chain) {
+      return Promise.resolve(entry.chain);
+    }
+    if (entry.pending) {
+      return entry.pending;
+    }
+
+    const wallet = entry.signer === 'wallet' ? this.walletWallet : this.publicWallet;
+    const signer = entry.signer === 'wallet' ? this.walletSigner : this.publicSigner;
+    if (!wallet || !signer) {
+      return Promise.reject(new NotInitializedError(`[ClientManager] ${entry.signer} client not initialized`));
+    }
+
+    logger.debug(`[ClientManager] Creating ${entry.signer} client for chain: ${entry.chainId}`);
+    const creation = this.attachExistingChain(wallet, signer, entry.chainId, entry.owner)
+      .then(({ client, chain }) => {
+        // Wallet disconnected or switched meanwhile: the client belongs to a released wallet
+        if (this.ownedChainClients.get(entry.chainId) !== entry) {
+          freeQuietly(chain);
+          freeQuietly(client);
+          throw new LineraError('WALLET_CHANGED', `[ClientManager] Wallet changed while loading chain ${entry.chainId}`);
+        }
+
+        entry.client = client;
+        entry.chain = chain;
+        return chain;
+      })
+      .catch((error) => {
+        // An external chain that cannot be attached is looked up again next time
+        if (entry.kind === 'external' && this.ownedChainClients.get(entry.chainId) === entry) {
+          this.ownedChainClients.delete(entry.chainId);
+        }
+        throw error;
+      })
+      .finally(() => {
+        entry.pending = null;
+      });
+    entry.pending = creation;
+
+    return creation;
+  }
+
+  /**
+   * Register the chains previously claimed for an owner (clients are created on first use)
+   */
+  private restoreClaimedChains(owner: string): void {
+    if (!this.walletChainRegistry || !this.faucetPool) return;
+
+    const chainIds = this.walletChainRegistry.getClaimedChains(owner, this.faucetPool.getUrls());
+    chainIds.forEach((chainId) => {
+      this.ownedChainClients.set(chainId, createOwnedChainClient(chainId, owner, 'claimed', 'wallet'));
+    });
+
+    if (chainIds.length > 0) {
+      logger.info(`[ClientManager] Restored ${chainIds.length} claimed chain(s) for ${owner}`);
+    }
+  }
+
+  /**
+   * Free per-chain clients and forget them (the registry keeps claimed chains)
+   *
+   * @param signer - Only release the chains of this signer (all when omitted)
+   */
+  private releaseOwnedChainClients(signer?: OwnedChainClient['signer']): void {
+    this.ownedChainClients.forEach((entry, chainId) => {
+      if (signer && entry.signer !== signer) return;
+
+      if (entry.chain) freeQuietly(entry.chain);
+      if (entry.client) freeQuietly(entry.client);
+      this.ownedChainClients.delete(chainId);
+    });
+  }
+
+  // ============================================
+  // NATIVE TOKENS
+  // ============================================
+
+  /**
+   * Get the native token balance of a chain
+   *
+   * Only the chain account balance can be read: the @linera/client binding
+   * does not expose the balances of owner accounts.
+   *
+   * @param chainId - Chain to read
+   * @param options - `signal` and `timeoutMs` (default `timeouts.queryMs`)
+   * @returns Exact balance
+   */
+  async getBalance(chainId: string, options?: CancellationOptions): Promise<Amount> {
+    const chain = await this.getChain(chainId);
+    try {
+      const balance = await withCancellation(
+        'Balance query',
+        { signal: options?.signal, timeoutMs: options?.timeoutMs ?? this.timeouts.queryMs },
+        () => chain.balance()
+      );
+      return Amount.parse(balance);
+    } catch (error) {
+      this.handleOperationError(error, 'getBalance');
+      throw error;
+    }
+  }
+
+  /**
+   * Transfer native tokens
+   *
+   * The transfer is signed by the local signer owning the source chain: the wallet signer
+   * for the wallet chain and claimed chains (FULL mode), the temporary signer for the public chain.
+   *
+   * @throws ChainNotOwnedError if no local signer owns the source chain
+   * @throws RangeError if the amount is not positive or cannot be passed exactly to the binding
+   *
+   * @example
+   * ```typescript
+   * await clientManager.transfer({
+   *   to: { chainId: recipientChainId, owner: recipientAddress },
+   *   amount: '1.5',
+   * });
+   * ```
+   */
+  async transfer(request: TransferRequest): Promise<void> {
+    const amount = Amount.from(request.amount);
+    if (amount.isZero()) {
+      throw new RangeError('Transfer amount must be positive');
+    }
+    // The binding takes a JS number: refuse amounts it would round
+    const exactAmount = amount.toExactNumber();
+
+    await this.claimIfLazy();
+
+    const sourceChainId = request.from?.chainId ??
+      (this.mode === ClientMode.FULL ? this.walletChainId : this.publicChainId);
+    if (!sourceChainId) {
+      throw new NotInitializedError('[ClientManager] No source chain: initialize the client or pass from.chainId');
+    }
+
+    const { chain, ownership } = await this.resolveChainAccess(sourceChainId);
+    if (!ownership.signer) {
+      throw new ChainNotOwnedError(sourceChainId, ownership.owners);
+    }
+
+    const donor = request.from?.owner && request.from.owner !== CHAIN_ACCOUNT_OWNER
+      ? request.from.owner
+      : undefined;
+
+    logger.info(
+      `[ClientManager] Transferring ${amount.toString()} from ${sourceChainId}${donor ? ` (${donor})` : ''} ` +
+      `to ${request.to.chainId}${request.to.owner ? ` (${request.to.owner})` : ''}`
+    );
+
+    try {
+      await withCancellation(
+        'Transfer',
+        { signal: request.signal, timeoutMs: request.timeoutMs ?? this.timeouts.mutationMs },
+        () => chain.transfer({
+          donor,
+          amount: exactAmount,
+          recipient: {
+            chain_id: request.to.chainId,
+            owner: request.to.owner ?? CHAIN_ACCOUNT_OWNER,
+          },
+        })
+      );
+    } catch (error) {
+      this.handleOperationError(error, 'transfer');
+      throw error;
+    }
+  }
+
+  // ============================================
+  // NOTIFICATIONS
+  // ============================================
+
+  /**
+   * Subscribe to the notifications of a chain
+   *
+   * All subscribers of a chain share one `onNotification` handler, and the chain stays
+   * pinned in the chain cache while it has subscribers. Subscriptions survive reinit()
+   * and wallet connect/switch/disconnect: they are rebound to the new chain instance.
+   * Before initialization (or in lazy mode before the claim), the subscription waits for
+   * the client to be ready and does not trigger the claim.
+   *
+   * @param chainId - Chain to watch
+   * @param filter - Notification kind(s), predicate, or null for all notifications
+   * @param handler - Called for each matching notification
+   * @param options - `onError`, called when the chain cannot be bound (retried with backoff)
+   * @returns Function removing this subscription
+   *
+   * @example
+   * ```typescript
+   * const unsubscribe = clientManager.subscribe(chainId, 'NewBlock', (notification) => {
+   *   console.log('New block on', notification.chain_id);
+   * });
+   * ```
+   */
+  subscribe(
+    chainId: string,
+    filter: NotificationFilter,
+    handler: NotificationHandler,
+    options?: SubscribeOptions
+  ): () => void {
+    return this.notifications.subscribe(chainId, filter, handler, isReadyMode(this.mode), options?.onError);
+  }
+
+  /**
+   * Chain instance delivering a chain's notifications:
+   * the owning signer's chain (e.g. the wallet chain), else the cached public-client chain
+   */
+  private async getNotificationChain(chainId: string): Promise<Chain> {
+    const owned = await this.getOwnedChain(chainId);
+    return owned ? owned.chain : this.getChain(chainId);
+  }
+
+  /**
+   * Subscribe to state changes
+   */
+  onStateChange(callback: StateChangeCallback): () => void {
+    this.stateListeners.add(callback);
+
+    // Return unsubscribe function
+    return () => {
+      this.stateListeners.delete(callback);
+    };
+  }
+
+  /**
+   * Subscribe to recovery events (recovering/recovered/failed)
+   * Events are only emitted when `ClientConfig.recovery.enabled` is true
+   */
+  onRecoveryEvent(callback: RecoveryEventCallback): () => void {
+    return this.recovery.onEvent(callback);
+  }
+
+  /**
+   * Subscribe to a lifecycle event
+   *
+   * @example
+   * ```typescript
+   * const off = manager.on('walletConnected', ({ address, chainId }) => {
+   *   console.log(`${address} connected on ${chainId}`);
+   * });
+   * ```
+   */
+  on<K extends LineraClientEventName>(event: K, listener: (payload: LineraClientEvents[K]) => void): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Subscribe to the next occurrence of a lifecycle event
+   */
+  once<K extends LineraClientEventName>(event: K, listener: (payload: LineraClientEvents[K]) => void): () => void {
+    return this.events.once(event, listener);
+  }
+
+  /**
+   * Destroy and cleanup both chains
+   */
+  async destroy(): Promise<void> {
+    logger.info('[ClientManager] Destroying client...');
+
+    this.releaseResources();
+    this.lastError = null;
+    this.setMode(ClientMode.UNINITIALIZED);
+
+    this.stateListeners.clear();
+    this.events.clear();
+    this.notifications.clear();
+  }
+
+  /**
+   * Free all client resources (the mode is left to the caller)
+   * Listeners are kept (used by destroy() and reinit())
+   */
+  private releaseResources(): void {
+    // Clear all caches first (subscriptions are rebound once the client is ready again)
+    this.clearAllCaches();
+    this.notifications.detachAll();
+
+    // Release the active faucet instance
+    this.faucetPool?.dispose();
+
+    // Cleanup public chain
+    if (this.publicClient) {
+      (this.publicClient).free();
+    }
+    if (this.publicWallet) {
+      this.publicWallet.free();
+    }
+
+    // Cleanup wallet chain and per-chain clients
+    this.releaseOwnedChainClients();
+    if (this.walletClient) {
+      (this.walletClient).free();
+    }
+    if (this.walletWallet) {
+      this.walletWallet.free();
+    }
+
+    this.publicClient = null;
+    this.publicWallet = null;
+    this.publicSigner = null;
+    this.publicChainId = null;
+    this.publicAddress = null;
+
+    this.walletClient = null;
+    this.walletWallet = null;
+    this.walletSigner = null;
+    this.walletChainId = null;
+    this.walletAddress = null;
+  }
+
+  /**
+   * Free wallet chain resources and clear wallet state (public chain untouched)
+   */
+  private releaseWalletResources(): void {
+    this.releaseOwnedChainClients('wallet');
+    if (this.walletClient) {
+      (this.walletClient).free();
+    }
+    if (this.walletWallet) {
+      this.walletWallet.free();
+    }
+
+    this.walletClient = null;
+    this.walletWallet = null;
+    this.walletSigner = null;
+    this.walletChainId = null;
+    this.walletAddress = null;
+  }
+
+  /**
+   * Robust reinit: attempt a full deterministic restart.
+   *
+   * Strategy:
+   * 1. Try a best-effort resource release (don't let its errors stop progress).
+   * 2. Force-clear any lingering references (free() where available).
+   * 3. Reload the linera module and init the wasm (init()).
+   * 4. Recreate public client (and reconnect wallet signer if present).
+   * 5. If anything irrecoverable happens, perform a hard reload (only when allowed).
+   *
+   * State and event listeners survive the restart.
+   * Serialized with other wallet transitions.
+   */
+  async reinit(options?: ReinitOptions): Promise<void> {
+    return this.transitionLock.runExclusive(() => this.doReinit(options));
+  }
+
+  private async doReinit(options?: ReinitOptions): Promise<void> {
+    logger.info('[ClientManager] reinit(): starting full restart');
+
+    const allowPageReload = options?.allowPageReload ?? this.recovery.allowsPageReload();
+
+    // Preserve wallet signer so we can try to reconnect it after reinit
+    const previousWalletSigner = this.walletSigner;
+    const hadWallet = !!previousWalletSigner;
+
+    this.setMode(ClientMode.RECOVERING);
+
+    // 1) Best-effort release but never abort on error (listeners are kept)
+    try {
+      // free() may throw if wasm is corrupted — catch and proceed
+      this.releaseResources();
+    } catch (destroyErr) {
+      logger.warn('[ClientManager] reinit(): releasing resources threw, continuing anyway', destroyErr);
+      // proceed to forced cleanup below
     }
 
     // 2) Forced cleanup of any lingering references (ignore errors)
-    // Clear caches (in case destroy() threw)
+    // Clear caches (in case the release threw)
     this.clearAllCaches();
 
     try {
@@ -613,51 +1591,39 @@ export class LineraClientManager implements ILineraClientManager {
     this.walletChainId = null;
     this.walletAddress = null;
 
-    this.mode = ClientMode.UNINITIALIZED;
     this.notifyStateChange();
 
     // 3) (Re)load linera module and init WASM
     try {
-      // Reload module to get a fresh vm if possible
-      this.lineraModule = await this.loadLinera();
-      const { default: init } = this.lineraModule as LineraModule;
-
-      // init() may itself throw if the wasm is unhealthy; wrap it
-      await init();
+      // Reload module to get a fresh vm if possible; init() may itself throw if the wasm is unhealthy
+      this.runtimeLoad = null;
+      this.runtimeLoaded = false;
+      await this.ensureRuntime();
     } catch (initErr) {
       logger.error('[ClientManager] reinit(): wasm init failed', initErr);
+      this.setMode(ClientMode.ERROR, initErr instanceof Error ? initErr : new Error(String(initErr)));
       // fallback to full reload of the page as last resort
-      try {
-        logger.info('[ClientManager] reinit(): falling back to window.location.reload()');
-        window.location.reload();
-        return;
-      } catch {
-        throw initErr;
-      }
+      this.reloadPageOrThrow(initErr, allowPageReload);
+      return;
     }
 
     // 4) Recreate public chain resources by calling initializeReadOnly()
     try {
-      await this.initializeReadOnly();
+      await this.doInitializeReadOnly();
     } catch (initReadOnlyErr) {
       logger.error('[ClientManager] reinit(): initializeReadOnly() failed', initReadOnlyErr);
       // hard reload as fallback
-      try {
-        window.location.reload();
-        return;
-      } catch {
-        throw initReadOnlyErr;
-      }
+      this.reloadPageOrThrow(initReadOnlyErr, allowPageReload);
+      return;
     }
 
     // 5) If we previously had a wallet signer, try to reconnect it (best-effort)
     if (hadWallet && previousWalletSigner) {
       try {
-        await this.connectWallet(previousWalletSigner);
+        await this.doConnectWallet(previousWalletSigner);
       } catch (walletErr) {
-        // Keep public client running; notify listeners about partial failure.
+        // Keep public client running; connectWallet() recorded the error in lastError
         logger.warn('[ClientManager] reinit(): reconnecting wallet failed (public client active)', walletErr);
-        this.notifyStateChange({ error: walletErr instanceof Error ? walletErr : new Error(String(walletErr)) });
       }
     }
 
@@ -667,30 +1633,296 @@ export class LineraClientManager implements ILineraClientManager {
   }
 
 
+  /**
+   * Reload the page if allowed, otherwise rethrow the re-initialization error
+   */
+  private reloadPageOrThrow(error: unknown, allowPageReload: boolean): void {
+    if (!allowPageReload || typeof window === 'undefined') {
+      throw error;
+    }
+    logger.info('[ClientManager] reinit(): falling back to window.location.reload()');
+    window.location.reload();
+  }
+
+  /**
+   * Report an operation error to the recovery supervisor
+   * (restarts the client on WASM runtime faults when recovery is enabled)
+   */
+  private handleOperationError = (error: unknown, source: string): void => {
+    this.recovery.report(error, source);
+  };
+
+  /**
+   * Observer passed to application clients: emits query/mutation events
+   * and reports failures to the recovery supervisor
+   */
+  private operationObserver: OperationObserver = {
+    start: (descriptor) => {
+      const info: OperationInfo = { ...descriptor, id: ++this.operationCounter };
+      this.events.emit(info.kind === 'query' ? 'queryStarted' : 'mutationStarted', info);
+      return info;
+    },
+    finish: (info, startedAt, error) => {
+      const err = error === undefined
+        ? undefined
+        : error instanceof Error ? error : new Error(String(error));
+      const result = { ...info, durationMs: Date.now() - startedAt, error: err };
+      this.events.emit(info.kind === 'query' ? 'queryFinished' : 'mutationFinished', result);
+      this.diagnostics.recordOperation(result);
+
+      if (error !== undefined) {
+        this.handleOperationError(error, `${info.source}.${info.kind}`);
+      }
+    },
+  };
+
   // ============================================
-  // CACHE MANAGEMENT (private helpers)
+  // CHAIN PERSISTENCE (private helpers)
   // ============================================
 
   /**
-   * Evict oldest chain from cache (LRU strategy)
+   * Create a client for the given wallet and signer
+   * Note: Client constructor may return a Promise in WASM environment
    */
-  private evictOldestChain(): void {
-    const firstKey = this.chainCache.keys().next().value;
-    if (firstKey) {
-      this.chainCache.delete(firstKey);
-      logger.debug(`[ClientManager] Evicted chain from cache: ${firstKey}`);
+  private async createClient(wallet: Wallet, signer: Signer): Promise<Client> {
+    const { Client } = this.lineraModule as LineraModule;
+    const clientInstance = new Client(wallet, signer, {
+      ...this.config.init
+    });
+    return Promise.resolve(clientInstance);
+  }
+
+  /**
+   * Create a wallet: from existingChains.createWallet, else from the faucet
+   *
+   * @param signal - Stops faucet retries (initialization cancellation)
+   */
+  private async createWallet(signal?: AbortSignal): Promise<Wallet> {
+    const existing = this.config.existingChains;
+    if (existing) {
+      return existing.createWallet(this.lineraModule as LineraModule);
     }
+    return this.requireFaucetPool().run('createWallet', (faucet) => faucet.createWallet(), signal);
   }
 
+  /**
+   * Claim a chain from the faucet (retried, with failover across endpoints)
+   *
+   * @param signal - Stops faucet retries (initialization cancellation)
+   */
+  private async claimFaucetChain(wallet: Wallet, owner: string, signal?: AbortSignal): Promise<string> {
+    return this.requireFaucetPool().run('claimChain', (faucet) => faucet.claimChain(wallet, owner), signal);
+  }
+
+  /**
+   * Faucet pool, or an error when running without a faucet (existingChains only)
+   */
+  private requireFaucetPool(): FaucetPool {
+    if (!this.faucetPool) {
+      throw new FaucetError('[ClientManager] No faucetUrl configured, cannot claim chains');
+    }
+    return this.faucetPool;
+  }
+
+  /**
+   * Chain configured in existingChains.walletChains for an owner (case-insensitive)
+   */
+  private findConfiguredWalletChain(owner: string): string | null {
+    const walletChains = this.config.existingChains?.walletChains;
+    if (!walletChains) return null;
+
+    const match = Object.entries(walletChains).find(
+      ([chainOwner]) => chainOwner.toLowerCase() === owner.toLowerCase()
+    );
+    return match ? match[1] : null;
+  }
+
+  /**
+   * Attach an already claimed chain to a fresh wallet and create its client
+   *
+   * The Linera Wallet cannot be serialized, so it is rebuilt (from the faucet's
+   * genesis config or existingChains.createWallet) and the existing chain is
+   * re-attached with its owner.
+   * Connecting to the chain verifies that it still exists and can sync.
+   *
+   * @throws Error if the chain cannot be attached (the partial client is freed)
+   */
+  private async attachExistingChain(
+    wallet: Wallet,
+    signer: Signer,
+    chainId: string,
+    owner: string
+  ): Promise<{ client: Client; chain: Chain }> {
+    await wallet.setOwner(chainId, owner);
+    const client = await this.createClient(wallet, signer);
+
+    try {
+      const chain = await client.chain(chainId);
+      return { client, chain };
+    } catch (error) {
+      try { client.free(); } catch (e) { logger.debug('[ClientManager] client.free() failed', e); }
+      throw error;
+    }
+  }
+
+  /**
+   * Get storage for the persisted public chain (null when persistence is disabled)
+   */
+  private getPublicChainStorage(): { storage: StorageAdapter; key: string } | null {
+    const readOnlyWallet = this.config.readOnlyWallet;
+    if (!readOnlyWallet?.persistChain) return null;
+
+    if (!readOnlyWallet.storage || readOnlyWallet.storage === 'none') {
+      logger.warn('[ClientManager] persistChain requires readOnlyWallet.storage, ignoring');
+      return null;
+    }
+
+    const storage = resolveStorage(readOnlyWallet.storage);
+    if (!storage) return null;
+
+    return {
+      storage,
+      key: `${readOnlyWallet.storageKey ?? 'linera_readonly_wallet'}_chain`,
+    };
+  }
+
+  /**
+   * Restore the persisted public chain into the freshly created public wallet
+   * On success, publicChainId and publicClient are set.
+   *
+   * @returns true if the stored chain was restored and is usable
+   */
+  private async restorePublicChain(owner: string): Promise<boolean> {
+    const target = this.getPublicChainStorage();
+    if (!target || !this.publicWallet || !this.publicSigner) return false;
+
+    const stored = readJson<PersistedPublicChain>(target.storage, target.key);
+    if (!stored?.chainId) return false;
+
+    if (stored.owner?.toLowerCase() !== owner.toLowerCase() || !this.faucetPool?.has(stored.faucetUrl)) {
+      logger.info('[ClientManager] Stored public chain belongs to another owner or faucet, claiming a new one');
+      removeItem(target.storage, target.key);
+      return false;
+    }
+
+    try {
+      logger.info('[ClientManager] Restoring persisted public chain:', stored.chainId);
+      return await this.attachPublicChain(stored.chainId, owner);
+    } catch (error) {
+      logger.warn('[ClientManager] Stored public chain is unusable, claiming a new one:', error);
+      removeItem(target.storage, target.key);
+
+      // Start again from a clean wallet so the stale chain is not kept around
+      try { this.publicWallet.free(); } catch (e) { logger.debug('[ClientManager] publicWallet.free() failed', e); }
+      this.publicWallet = await this.createWallet();
+      return false;
+    }
+  }
+
+  /**
+   * Attach an existing public chain to the public wallet and cache it
+   * On success, publicChainId and publicClient are set.
+   *
+   * @throws Error if the chain cannot be attached
+   */
+  private async attachPublicChain(chainId: string, owner: string): Promise<true> {
+    if (!this.publicWallet || !this.publicSigner) {
+      throw new NotInitializedError('[ClientManager] Public wallet not created');
+    }
+
+    const { client, chain } = await this.attachExistingChain(this.publicWallet, this.publicSigner, chainId, owner);
+    this.chainCache.set(chainId, chain);
+    this.events.emit('chainCached', { chainId, size: this.chainCache.size });
+
+    this.publicClient = client;
+    this.publicChainId = chainId;
+    logger.info('[ClientManager] Public chain attached:', chainId);
+    return true;
+  }
+
+  /**
+   * Attach an existing wallet chain to the wallet wallet
+   * On success, walletChainId and walletClient are set.
+   *
+   * @returns The verified wallet chain
+   * @throws Error if the chain cannot be attached
+   */
+  private async attachWalletChain(chainId: string, owner: string): Promise<Chain> {
+    if (!this.walletWallet || !this.walletSigner) {
+      throw new WalletNotConnectedError('[ClientManager] Wallet wallet not created');
+    }
+
+    const { client, chain } = await this.attachExistingChain(this.walletWallet, this.walletSigner, chainId, owner);
+    this.walletClient = client;
+    this.walletChainId = chainId;
+    logger.info('[ClientManager] Wallet chain attached:', chainId);
+    return chain;
+  }
+
+  /**
+   * Restore the wallet chain remembered for an owner into the fresh wallet wallet
+   * On success, walletChainId and walletClient are set.
+   *
+   * @returns The verified wallet chain, or null if a new chain must be claimed
+   */
+  private async restoreWalletChain(owner: string): Promise<Chain | null> {
+    // Registry entries are scoped to faucets
+    if (!this.walletChainRegistry || !this.faucetPool || !this.walletWallet || !this.walletSigner) return null;
+
+    const knownChainId = this.walletChainRegistry.get(owner, this.faucetPool.getUrls());
+    if (!knownChainId) return null;
+
+    try {
+      logger.info('[ClientManager] Reusing wallet chain known for owner:', knownChainId);
+      return await this.attachWalletChain(knownChainId, owner);
+    } catch (error) {
+      logger.warn('[ClientManager] Known wallet chain is unusable, claiming a new one:', error);
+      this.walletChainRegistry.remove(owner);
+
+      // Start again from a clean wallet so the stale chain is not kept around
+      try { this.walletWallet.free(); } catch (e) { logger.debug('[ClientManager] walletWallet.free() failed', e); }
+      this.walletWallet = await this.createWallet();
+      return null;
+    }
+  }
+
+  /**
+   * Persist the claimed public chain (no-op when persistence is disabled)
+   */
+  private persistPublicChain(chainId: string, owner: string): void {
+    const target = this.getPublicChainStorage();
+    if (!target || !this.faucetPool) return;
+
+    const record: PersistedPublicChain = {
+      chainId,
+      owner,
+      faucetUrl: this.faucetPool.getActiveUrl(),
+    };
+    writeJson(target.storage, target.key, record);
+    logger.debug('[ClientManager] Public chain persisted:', chainId);
+  }
+
+  // ============================================
+  // CACHE MANAGEMENT (private helpers)
+  // ============================================
+
   /**
    * Invalidate application cache
    * Called when wallet state changes (connect/disconnect/switch)
    */
-  private invalidateAppCache(): void {
+  private invalidateAppCache(reason: LineraClientEvents['appCacheInvalidated']['reason']): void {
+    this.appCacheGeneration++;
+    this.pendingApps.clear();
+    this.pendingWalletChain = null;
+
     if (this.appCache.size > 0) {
-      logger.info(`[ClientManager] Invalidating application cache (${this.appCache.size} entries)`);
+      const entries = this.appCache.size;
+      logger.info(`[ClientManager] Invalidating application cache (${entries} entries)`);
       this.appCache.clear();
+      this.events.emit('appCacheInvalidated', { entries, reason });
     }
+    this.releaseAppChainPins.forEach((release) => release());
+    this.releaseAppChainPins = [];
     // Also invalidate wallet chain cache since wallet state changed
     if (this.cachedWalletChain) {
       logger.debug('[ClientManager] Invalidating wallet chain cache');
@@ -704,32 +1936,122 @@ export class LineraClientManager implements ILineraClientManager {
    */
   private clearAllCaches(): void {
     logger.debug('[ClientManager] Clearing all caches');
+    this.chainCacheGeneration++;
+    this.pendingChains.clear();
+
     this.chainCache.clear();
-    this.appCache.clear();
+    this.queryCache.clear();
+
+    this.invalidateAppCache('cleared');
     this.cachedWalletChain = null;
   }
 
   /**
-   * Load Linera module
+   * Load and initialize the WASM runtime once (concurrent callers share the load)
    */
-  private async loadLinera(): Promise<LineraModule> {
-    // Directly load the Linera WebAssembly module from the public directory
-    // Using a function wrapper to bypass Turbopack's static analysis
-    const origin = typeof window !== 'undefined' ? window.location.origin : '';
-    const moduleUrl = `${origin}/linera/wasm/index.js`;
+  private ensureRuntime(): Promise<LineraModule> {
+    if (!this.runtimeLoad) {
+      const load = (async () => {
+        const lineraModule = await this.loadLinera();
+        try {
+          await lineraModule.default();
+        } catch (error) {
+          throw new WasmRuntimeError(
+            `[ClientManager] Failed to start the Linera WASM runtime: ${toError(error).message}`,
+            { cause: error }
+          );
+        }
+
+        this.lineraModule = lineraModule;
+        this.runtimeLoaded = true;
+        this.notifyStateChange();
+        return lineraModule;
+      })();
+
+      // Forget a failed load so the next caller retries
+      load.catch(() => {
+        if (this.runtimeLoad === load) {
+          this.runtimeLoad = null;
+        }
+      });
+      this.runtimeLoad = load;
+    }
+    return this.runtimeLoad;
+  }
 
-    logger.info('Loading Linera module from:', moduleUrl);
+  /**
+   * In lazy mode, claim the public chain on first use
+   * (waits behind any running transition; no-op once initialized)
+   */
+  private async claimIfLazy(): Promise<void> {
+    if (!this.lazy || isReadyMode(this.mode)) return;
 
-    // Use Function constructor to create dynamic import that Turbopack can't analyze
-    // This bypasses static analysis while still loading the module at runtime
-    const loadModule = new Function('url', 'return import(url)');
-    const lineraModule = await loadModule(moduleUrl) as LineraModule;
+    logger.info('[ClientManager] Lazy mode: claiming public chain on first use');
+    await this.initializeReadOnly();
+  }
 
-    logger.info('Linera module loaded:', lineraModule);
+  /**
+   * Public chain claim status (lazy mode only)
+   */
+  private getClaimStatus(): LazyClaimStatus | undefined {
+    if (!this.lazy) return undefined;
+
+    if (isReadyMode(this.mode)) return 'claimed';
+    switch (this.mode) {
+      case ClientMode.INITIALIZING:
+      case ClientMode.RECOVERING:
+        return 'claiming';
+      case ClientMode.ERROR:
+        return 'failed';
+      default:
+        return 'pending';
+    }
+  }
 
+  /**
+   * Load Linera module (location configured via ClientConfig.moduleLoader)
+   */
+  private async loadLinera(): Promise<LineraModule> {
+    const lineraModule = await loadLineraModule(this.config.moduleLoader);
+    logger.info('Linera module loaded:', lineraModule);
     return lineraModule;
   }
 
+  /**
+   * Move to a new mode (validated), record the error, notify listeners
+   * Reaching READ_ONLY or FULL without an error clears lastError.
+   */
+  private setMode(next: ClientMode, error?: Error): void {
+    assertTransition(this.mode, next);
+
+    const previous = this.mode;
+    if (next !== previous) {
+      this.previousMode = previous;
+      this.mode = next;
+    }
+
+    if (error) {
+      this.lastError = error;
+    } else if (next === ClientMode.READ_ONLY || next === ClientMode.FULL) {
+      this.lastError = null;
+    }
+
+    this.notifyStateChange();
+
+    if (next !== previous) {
+      this.diagnostics.recordModeChange(next, previous, error);
+      logger.debug(`[ClientManager] Mode: ${previous} -> ${next}`);
+      this.events.emit('modeChanged', { mode: next, previousMode: previous, error });
+
+      // Chain instances may have changed (initialization, wallet change, recovery)
+      if (next === ClientMode.READ_ONLY || next === ClientMode.FULL) {
+        this.notifications.rebindAll();
+      }
+    } else if (error) {
+      this.diagnostics.recordError(error, 'mode');
+    }
+  }
+
   /**
    * Notify all state listeners
    */
@@ -745,6 +2067,44 @@ export class LineraClientManager implements ILineraClientManager {
   }
 }
 
+/**
+ * New per-chain client entry (client created on first use)
+ */
+function createOwnedChainClient(
+  chainId: string,
+  owner: string,
+  kind: OwnedChainClient['kind'],
+  signer: OwnedChainClient['signer']
+): OwnedChainClient {
+  return { chainId, owner, kind, signer, client: null, chain: null, pending: null };
+}
+
+/**
+ * Free a WASM object, ignoring failures (a crashed runtime may refuse)
+ */
+function freeQuietly(resource: { free(): void }): void {
+  try {
+    resource.free();
+  } catch (error) {
+    logger.debug('[ClientManager] free() failed', error);
+  }
+}
+
+/**
+ * Run a callback when the browser is idle (or after `timeoutMs` at the latest)
+ */
+function scheduleIdle(callback: () => void, timeoutMs: number): void {
+  const requestIdle = typeof window !== 'undefined'
+    ? (window as Window & { requestIdleCallback?: (cb: () => void, options?: { timeout: number }) => number }).requestIdleCallback
+    : undefined;
+
+  if (requestIdle) {
+    requestIdle.call(window, callback, { timeout: timeoutMs });
+  } else {
+    setTimeout(callback, Math.min(timeoutMs, 200));
+  }
+}
+
 /**
  * Singleton instance management
  */
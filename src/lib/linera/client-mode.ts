@@ -0,0 +1,63 @@
+/**
+ * Client Mode Transitions
+ *
+ * Allowed ClientMode transitions for the client manager. Every mode change
+ * goes through `assertTransition`, so an impossible state (e.g. FULL while
+ * still INITIALIZING) fails loudly instead of leaving the UI out of sync.
+ */
+
+import { ClientMode } from './types';
+import { LineraError } from './errors';
+
+/**
+ * Allowed target modes per mode
+ * (staying in the same mode and resetting to UNINITIALIZED are always allowed)
+ */
+export const CLIENT_MODE_TRANSITIONS: Readonly<Record<ClientMode, readonly ClientMode[]>> = {
+  [ClientMode.UNINITIALIZED]: [ClientMode.INITIALIZING, ClientMode.RECOVERING],
+  [ClientMode.INITIALIZING]: [ClientMode.READ_ONLY, ClientMode.ERROR],
+  [ClientMode.READ_ONLY]: [ClientMode.CONNECTING_WALLET, ClientMode.RECOVERING, ClientMode.ERROR],
+  [ClientMode.CONNECTING_WALLET]: [ClientMode.FULL, ClientMode.READ_ONLY, ClientMode.ERROR],
+  [ClientMode.FULL]: [
+    ClientMode.CONNECTING_WALLET,
+    ClientMode.DISCONNECTING,
+    ClientMode.RECOVERING,
+    ClientMode.ERROR,
+  ],
+  [ClientMode.DISCONNECTING]: [ClientMode.READ_ONLY, ClientMode.ERROR],
+  [ClientMode.RECOVERING]: [ClientMode.INITIALIZING, ClientMode.ERROR],
+  [ClientMode.ERROR]: [ClientMode.INITIALIZING, ClientMode.RECOVERING],
+};
+
+/**
+ * Modes in which the public chain is usable (queries, subscriptions)
+ */
+const READY_MODES: ReadonlySet<ClientMode> = new Set([
+  ClientMode.READ_ONLY,
+  ClientMode.CONNECTING_WALLET,
+  ClientMode.FULL,
+  ClientMode.DISCONNECTING,
+]);
+
+/**
+ * Check whether a mode transition is allowed
+ */
+export function canTransition(from: ClientMode, to: ClientMode): boolean {
+  return from === to || to === ClientMode.UNINITIALIZED || CLIENT_MODE_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Throw if a mode transition is not allowed
+ */
+export function assertTransition(from: ClientMode, to: ClientMode): void {
+  if (!canTransition(from, to)) {
+    throw new LineraError('INVALID_STATE', `Invalid client mode transition: ${from} -> ${to}`);
+  }
+}
+
+/**
+ * Whether the public client is initialized in this mode
+ */
+export function isReadyMode(mode: ClientMode): boolean {
+  return READY_MODES.has(mode);
+}
@@ -0,0 +1,150 @@
+/**
+ * Diagnostics
+ *
+ * Records recent mode transitions, errors and operation timings so that
+ * `exportDiagnostics()` can produce a serializable report for bug reports.
+ * History is kept in bounded ring buffers.
+ */
+
+import type {
+  ClientMode,
+  DiagnosticsConfig,
+  DiagnosticsErrorEntry,
+  ModeHistoryEntry,
+  OperationResult,
+  OperationTiming,
+  LineraDiagnosticsReport,
+} from './types';
+import { isNodeRuntime } from './module-loader';
+import { LineraError } from './errors';
+
+const DEFAULT_DIAGNOSTICS: Required<DiagnosticsConfig> = {
+  historySize: 50,
+};
+
+/**
+ * Bounded history of mode transitions, errors and operation timings
+ */
+export class DiagnosticsRecorder {
+  private historySize: number;
+  private modeHistory: ModeHistoryEntry[] = [];
+  private errors: DiagnosticsErrorEntry[] = [];
+  private operations: OperationTiming[] = [];
+  private modeEnteredAt = Date.now();
+  private initializationStartedAt: number | null = null;
+  private initializationMs: number | null = null;
+
+  constructor(config?: DiagnosticsConfig) {
+    this.historySize = Math.max(1, { ...DEFAULT_DIAGNOSTICS, ...config }.historySize);
+  }
+
+  /**
+   * Record a mode transition (and its error, if any)
+   */
+  recordModeChange(mode: ClientMode, previousMode: ClientMode, error?: Error): void {
+    const now = Date.now();
+    this.push(this.modeHistory, {
+      mode,
+      previousMode,
+      at: new Date(now).toISOString(),
+      durationMs: now - this.modeEnteredAt,
+      error: error?.message,
+    });
+    this.modeEnteredAt = now;
+
+    if (error) {
+      this.recordError(error, 'mode');
+    }
+  }
+
+  /**
+   * Mark the start of an initialization (its duration is kept once it succeeds)
+   */
+  startInitialization(): void {
+    this.initializationStartedAt = Date.now();
+  }
+
+  /**
+   * Mark the end of a successful initialization
+   */
+  finishInitialization(): void {
+    if (this.initializationStartedAt === null) return;
+    this.initializationMs = Date.now() - this.initializationStartedAt;
+    this.initializationStartedAt = null;
+  }
+
+  /**
+   * Record an error as a plain object
+   */
+  recordError(error: unknown, source: string): void {
+    const err = error instanceof Error ? error : new Error(String(error));
+    const cause = (err as { cause?: unknown }).cause;
+
+    this.push(this.errors, {
+      at: new Date().toISOString(),
+      source,
+      name: err.name,
+      code: err instanceof LineraError ? err.code : undefined,
+      message: err.message,
+      cause: cause === undefined
+        ? undefined
+        : cause instanceof Error ? cause.message : String(cause),
+    });
+  }
+
+  /**
+   * Record a finished application operation
+   */
+  recordOperation(result: OperationResult): void {
+    this.push(this.operations, {
+      kind: result.kind,
+      source: result.source,
+      appId: result.appId,
+      chainId: result.chainId,
+      at: new Date().toISOString(),
+      durationMs: result.durationMs,
+      failed: result.error !== undefined,
+    });
+
+    if (result.error) {
+      this.recordError(result.error, `${result.source}.${result.kind}`);
+    }
+  }
+
+  /**
+   * Copy of the recorded history (oldest first)
+   */
+  snapshot(): Pick<LineraDiagnosticsReport, 'modeHistory' | 'errors' | 'timings'> {
+    return {
+      modeHistory: this.modeHistory.map((entry) => ({ ...entry })),
+      errors: this.errors.map((entry) => ({ ...entry })),
+      timings: {
+        initializationMs: this.initializationMs,
+        operations: this.operations.map((entry) => ({ ...entry })),
+      },
+    };
+  }
+
+  private push<T>(buffer: T[], entry: T): void {
+    buffer.push(entry);
+    if (buffer.length > this.historySize) {
+      buffer.splice(0, buffer.length - this.historySize);
+    }
+  }
+}
+
+/**
+ * Describe the runtime environment (threads need crossOriginIsolated + SharedArrayBuffer)
+ */
+export function describeEnvironment(): LineraDiagnosticsReport['environment'] {
+  const scope = globalThis as typeof globalThis & { crossOriginIsolated?: boolean };
+
+  return {
+    runtime: typeof window !== 'undefined' ? 'browser' : isNodeRuntime() ? 'node' : 'unknown',
+    crossOriginIsolated: typeof scope.crossOriginIsolated === 'boolean' ? scope.crossOriginIsolated : null,
+    sharedArrayBuffer: typeof SharedArrayBuffer !== 'undefined',
+    userAgent: typeof navigator !== 'undefined' && typeof navigator.userAgent === 'string'
+      ? navigator.userAgent
+      : null,
+  };
+}
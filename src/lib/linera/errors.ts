@@ -0,0 +1,269 @@
+/**
+ * Errors
+ *
+ * Every error thrown by the client manager, the application clients, the
+ * GraphQL helpers, the module loader and the signers is a `LineraError` with
+ * a stable `code`, so UIs can branch on the error type (or code) instead of
+ * parsing messages. The underlying error is kept as `cause`.
+ *
+ * Invalid arguments of value helpers stay standard errors: `Amount` and
+ * `transfer()` throw `RangeError` for malformed or non-positive amounts.
+ */
+
+import type { FaucetUnavailable, GraphQLErrorEntry } from './types';
+
+/**
+ * Stable error codes
+ */
+export type LineraErrorCode =
+  | 'QUERY_FAILED'
+  | 'MUTATION_FAILED'
+  | 'SIGNATURE_REJECTED'
+  | 'SIGNER_ERROR'
+  | 'WALLET_NOT_CONNECTED'
+  | 'WALLET_CONNECTION_FAILED'
+  | 'FAUCET_ERROR'
+  | 'FAUCET_UNAVAILABLE'
+  | 'WASM_RUNTIME_ERROR'
+  | 'NOT_INITIALIZED'
+  | 'INITIALIZATION_FAILED'
+  | 'CHAIN_NOT_OWNED'
+  | 'OWNER_MISMATCH'
+  | 'WALLET_CHANGED'
+  | 'APPLICATION_LOAD_FAILED'
+  | 'MODULE_LOAD_FAILED'
+  | 'INVALID_CONFIG'
+  | 'INVALID_STATE'
+  | 'INVALID_GRAPHQL_DOCUMENT'
+  | 'INVALID_GRAPHQL_RESPONSE'
+  | 'TIMEOUT'
+  | 'ABORTED';
+
+/**
+ * Options shared by Linera errors
+ */
+export interface LineraErrorOptions {
+  /** Underlying error */
+  cause?: unknown;
+}
+
+/**
+ * Base class of all Linera errors
+ */
+export class LineraError extends Error {
+  readonly code: LineraErrorCode;
+  readonly cause?: unknown;
+
+  constructor(code: LineraErrorCode, message: string, options?: LineraErrorOptions) {
+    super(message);
+    this.name = 'LineraError';
+    this.code = code;
+    if (options?.cause !== undefined) {
+      this.cause = options.cause;
+    }
+  }
+}
+
+/**
+ * Context of a failed application operation
+ */
+export interface OperationErrorOptions extends LineraErrorOptions {
+  appId?: string;
+  chainId?: string;
+  /** GraphQL errors of the response, if the application answered with errors */
+  errors?: GraphQLErrorEntry[];
+}
+
+/**
+ * An application query failed (transport failure or GraphQL errors)
+ */
+export class QueryError extends LineraError {
+  readonly appId?: string;
+  readonly chainId?: string;
+  readonly errors: GraphQLErrorEntry[];
+
+  constructor(message: string, options?: OperationErrorOptions) {
+    super('QUERY_FAILED', message, options);
+    this.name = 'QueryError';
+    this.appId = options?.appId;
+    this.chainId = options?.chainId;
+    this.errors = options?.errors ?? [];
+  }
+}
+
+/**
+ * An application mutation failed (block proposal failure or GraphQL errors)
+ */
+export class MutationError extends LineraError {
+  readonly appId?: string;
+  readonly chainId?: string;
+  readonly errors: GraphQLErrorEntry[];
+
+  constructor(message: string, options?: OperationErrorOptions) {
+    super('MUTATION_FAILED', message, options);
+    this.name = 'MutationError';
+    this.appId = options?.appId;
+    this.chainId = options?.chainId;
+    this.errors = options?.errors ?? [];
+  }
+}
+
+/**
+ * The user rejected the signature request in their wallet
+ */
+export class SignatureRejectedError extends LineraError {
+  /** EIP-1193 "user rejected request" provider error code */
+  static readonly PROVIDER_CODE = 4001;
+
+  constructor(options?: LineraErrorOptions) {
+    super('SIGNATURE_REJECTED', 'Signature request rejected by the user', options);
+    this.name = 'SignatureRejectedError';
+  }
+}
+
+/**
+ * The operation needs a connected (and unlocked) wallet
+ */
+export class WalletNotConnectedError extends LineraError {
+  constructor(message = 'Wallet not connected', options?: LineraErrorOptions) {
+    super('WALLET_NOT_CONNECTED', message, options);
+    this.name = 'WalletNotConnectedError';
+  }
+}
+
+/**
+ * A faucet call (createWallet/claimChain) failed, or no faucet can serve it
+ */
+export class FaucetError extends LineraError {
+  /** Faucet URL, when a single faucet was involved */
+  readonly url?: string;
+
+  constructor(message: string, options?: LineraErrorOptions & { url?: string }) {
+    super('FAUCET_ERROR', message, options);
+    this.name = 'FaucetError';
+    this.url = options?.url;
+  }
+}
+
+/**
+ * Thrown when the faucet circuit breaker is open
+ */
+export class FaucetUnavailableError extends FaucetError {
+  readonly code: LineraErrorCode = 'FAUCET_UNAVAILABLE';
+  readonly state: FaucetUnavailable;
+
+  constructor(state: FaucetUnavailable) {
+    super(
+      `Faucet is temporarily unavailable (${state.consecutiveFailures} consecutive failures). ` +
+      `Retry after ${new Date(state.retryAt).toISOString()}. Last error: ${state.lastError}`
+    );
+    this.name = 'FaucetUnavailableError';
+    this.state = state;
+  }
+}
+
+/**
+ * The WASM runtime faulted or failed to start (the instance is unusable afterwards)
+ */
+export class WasmRuntimeError extends LineraError {
+  constructor(message: string, options?: LineraErrorOptions) {
+    super('WASM_RUNTIME_ERROR', message, options);
+    this.name = 'WasmRuntimeError';
+  }
+}
+
+/**
+ * The client (or the resource the call needs) is not initialized yet
+ */
+export class NotInitializedError extends LineraError {
+  constructor(message = 'Client not initialized. Call initializeReadOnly() first.', options?: LineraErrorOptions) {
+    super('NOT_INITIALIZED', message, options);
+    this.name = 'NotInitializedError';
+  }
+}
+
+/**
+ * Thrown when mutating a chain that no local signer owns
+ */
+export class ChainNotOwnedError extends LineraError {
+  readonly chainId: string;
+  readonly owners: string[];
+
+  constructor(chainId: string, owners: string[]) {
+    super(
+      'CHAIN_NOT_OWNED',
+      owners.length > 0
+        ? `Chain ${chainId} is owned by ${owners.join(', ')}; no local signer can sign its blocks`
+        : `Chain ${chainId} has no known local owner; no local signer can sign its blocks`
+    );
+    this.name = 'ChainNotOwnedError';
+    this.chainId = chainId;
+    this.owners = owners;
+  }
+}
+
+/**
+ * Thrown when an operation did not settle within its timeout
+ */
+export class TimeoutError extends LineraError {
+  readonly operation: string;
+  readonly timeoutMs: number;
+
+  constructor(operation: string, timeoutMs: number) {
+    super('TIMEOUT', `${operation} timed out after ${timeoutMs}ms`);
+    this.name = 'TimeoutError';
+    this.operation = operation;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Thrown when an operation was cancelled through its AbortSignal
+ */
+export class AbortError extends LineraError {
+  readonly operation: string;
+  readonly reason?: unknown;
+
+  constructor(operation: string, reason?: unknown) {
+    super('ABORTED', `${operation} was aborted`);
+    this.name = 'AbortError';
+    this.operation = operation;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Whether an error is a Linera error (optionally with a given code)
+ */
+export function isLineraError(error: unknown, code?: LineraErrorCode): error is LineraError {
+  return error instanceof LineraError && (code === undefined || error.code === code);
+}
+
+/**
+ * Whether an error (or one of its causes) is a wallet signature rejection:
+ * EIP-1193 code 4001, ethers `ACTION_REJECTED`, or a rejection message
+ * (errors crossing the WASM boundary keep only their message)
+ */
+export function isSignatureRejection(error: unknown, depth = 0): boolean {
+  if (!error || depth > 5) return false;
+  if (error instanceof SignatureRejectedError) return true;
+
+  const err = error as { code?: unknown; message?: unknown; cause?: unknown };
+  if (err.code === SignatureRejectedError.PROVIDER_CODE || err.code === 'ACTION_REJECTED') {
+    return true;
+  }
+
+  const message = typeof err.message === 'string' ? err.message : typeof error === 'string' ? error : '';
+  if (/user (rejected|denied)|rejected by the user/i.test(message)) {
+    return true;
+  }
+
+  return err.cause !== undefined && err.cause !== error && isSignatureRejection(err.cause, depth + 1);
+}
+
+/**
+ * Normalize an unknown thrown value to an Error
+ */
+export function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
@@ -0,0 +1,101 @@
+/**
+ * Typed Event Emitter
+ *
+ * Minimal strongly-typed emitter used for the client manager lifecycle events.
+ * Listener errors are logged and never break the emitter.
+ */
+
+import { logger } from '../../utils/logger';
+
+/**
+ * Event listener for a payload type
+ */
+export type EventListener<T> = (payload: T) => void;
+
+/**
+ * Strongly-typed event emitter
+ *
+ * @example
+ * ```typescript
+ * const emitter = new TypedEventEmitter<{ ready: { id: string } }>();
+ * const off = emitter.on('ready', ({ id }) => console.log(id));
+ * emitter.emit('ready', { id: '42' });
+ * off();
+ * ```
+ */
+export class TypedEventEmitter<TEvents extends object> {
+  private listeners: Map<keyof TEvents, Set<EventListener<never>>> = new Map();
+
+  /**
+   * Subscribe to an event
+   *
+   * @returns Unsubscribe function
+   */
+  on<K extends keyof TEvents>(event: K, listener: EventListener<TEvents[K]>): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener as EventListener<never>);
+
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only
+   *
+   * @returns Unsubscribe function
+   */
+  once<K extends keyof TEvents>(event: K, listener: EventListener<TEvents[K]>): () => void {
+    const off = this.on(event, (payload) => {
+      off();
+      listener(payload);
+    });
+    return off;
+  }
+
+  /**
+   * Unsubscribe a listener
+   */
+  off<K extends keyof TEvents>(event: K, listener: EventListener<TEvents[K]>): void {
+    const set = this.listeners.get(event);
+    if (!set) return;
+
+    set.delete(listener as EventListener<never>);
+    if (set.size === 0) {
+      this.listeners.delete(event);
+    }
+  }
+
+  /**
+   * Emit an event to all its listeners
+   */
+  emit<K extends keyof TEvents>(event: K, payload: TEvents[K]): void {
+    const set = this.listeners.get(event);
+    if (!set) return;
+
+    // Copy so listeners can unsubscribe while being called
+    [...set].forEach((listener) => {
+      try {
+        (listener as EventListener<TEvents[K]>)(payload);
+      } catch (error) {
+        logger.error(`[Events] Listener error for "${String(event)}":`, error);
+      }
+    });
+  }
+
+  /**
+   * Number of listeners for an event
+   */
+  listenerCount<K extends keyof TEvents>(event: K): number {
+    return this.listeners.get(event)?.size ?? 0;
+  }
+
+  /**
+   * Remove all listeners
+   */
+  clear(): void {
+    this.listeners.clear();
+  }
+}
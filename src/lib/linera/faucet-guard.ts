@@ -0,0 +1,260 @@
+/**
+ * Faucet Guard
+ *
+ * Wraps faucet calls (createWallet/claimChain) with:
+ * - Retries with exponential backoff and jitter for transient errors
+ * - A circuit breaker that stops hitting a failing faucet for a cooldown period
+ *
+ * Retries stop as soon as the caller's signal aborts (e.g. initialization
+ * timeout), so no faucet request is sent after the caller gave up.
+ *
+ * While the circuit is open, calls fail fast with FaucetUnavailableError and the
+ * manager exposes the FaucetUnavailable state through ClientState. Other
+ * failures surface as FaucetError (the faucet error is kept as `cause`).
+ */
+
+import type {
+  FaucetRetryPolicy,
+  FaucetCircuitBreakerConfig,
+  FaucetUnavailable,
+} from './types';
+import { LineraError, FaucetError, FaucetUnavailableError, AbortError, toError } from './errors';
+import { isCancellationError } from './cancellation';
+import { logger } from '../../utils/logger';
+
+/**
+ * Default error patterns considered transient (rate limits, network hiccups)
+ */
+export const DEFAULT_RETRYABLE_FAUCET_ERRORS: Array<string | RegExp> = [
+  /rate.?limit/i,
+  /too many requests/i,
+  /\b429\b/,
+  /\b50[234]\b/,
+  /timed? ?out/i,
+  /network/i,
+  /failed to fetch/i,
+  /unavailable/i,
+  /connection/i,
+];
+
+const DEFAULT_RETRY_POLICY: Required<FaucetRetryPolicy> = {
+  maxAttempts: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+  jitter: true,
+  retryableErrors: DEFAULT_RETRYABLE_FAUCET_ERRORS,
+};
+
+const DEFAULT_CIRCUIT_BREAKER: Required<FaucetCircuitBreakerConfig> = {
+  failureThreshold: 5,
+  cooldownMs: 30_000,
+};
+
+/**
+ * Options for FaucetGuard
+ */
+export interface FaucetGuardOptions {
+  retry?: FaucetRetryPolicy;
+  circuitBreaker?: FaucetCircuitBreakerConfig | false;
+  /** Called whenever the circuit opens or closes */
+  onAvailabilityChange?: (unavailable: FaucetUnavailable | null) => void;
+}
+
+/**
+ * Retry + circuit breaker wrapper for faucet calls
+ */
+export class FaucetGuard {
+  private retry: Required<FaucetRetryPolicy>;
+  private breaker: Required<FaucetCircuitBreakerConfig> | null;
+  private onAvailabilityChange?: (unavailable: FaucetUnavailable | null) => void;
+
+  private consecutiveFailures = 0;
+  private openedUntil: number | null = null;
+  private lastError: string | null = null;
+
+  constructor(options?: FaucetGuardOptions) {
+    this.retry = { ...DEFAULT_RETRY_POLICY, ...options?.retry };
+    this.breaker = options?.circuitBreaker === false
+      ? null
+      : { ...DEFAULT_CIRCUIT_BREAKER, ...options?.circuitBreaker };
+    this.onAvailabilityChange = options?.onAvailabilityChange;
+  }
+
+  /**
+   * Run a faucet operation under the retry policy and circuit breaker
+   *
+   * @param operation - Operation name for logs (e.g. 'claimChain')
+   * @param fn - Faucet call
+   * @param signal - Stops the retries (the backoff delay rejects as soon as it aborts)
+   * @throws FaucetUnavailableError if the circuit is (or becomes) open
+   * @throws FaucetError if the call failed (after retries for transient errors)
+   * @throws AbortError or TimeoutError (the signal's reason) once the signal aborts
+   */
+  async run<T>(operation: string, fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      throwIfAborted(operation, signal);
+      this.assertAvailable();
+
+      try {
+        const result = await fn();
+        this.recordSuccess();
+        return result;
+      } catch (error) {
+        // Cancelled by the caller: not a faucet failure
+        if (signal?.aborted) {
+          throw abortReason(operation, signal);
+        }
+        const err = toError(error);
+
+        if (!this.isRetryable(err)) {
+          logger.debug(`[FaucetGuard] ${operation} failed with non-retryable error:`, err.message);
+          throw toFaucetError(operation, err);
+        }
+
+        this.recordFailure(err);
+
+        if (attempt >= this.retry.maxAttempts) {
+          logger.error(`[FaucetGuard] ${operation} failed after ${attempt} attempts:`, err.message);
+          throw toFaucetError(operation, err);
+        }
+
+        const delay = this.getDelay(attempt);
+        logger.warn(
+          `[FaucetGuard] ${operation} failed (attempt ${attempt}/${this.retry.maxAttempts}), retrying in ${delay}ms:`,
+          err.message
+        );
+        await sleep(delay, operation, signal);
+      }
+    }
+  }
+
+  /**
+   * Current unavailability state (null while the faucet is considered available)
+   */
+  getUnavailable(): FaucetUnavailable | null {
+    if (this.openedUntil === null) {
+      return null;
+    }
+
+    return {
+      consecutiveFailures: this.consecutiveFailures,
+      retryAt: this.openedUntil,
+      lastError: this.lastError ?? 'unknown error',
+    };
+  }
+
+  /**
+   * Close the circuit and reset failure counters (e.g. after a manual retry)
+   */
+  reset(): void {
+    const wasOpen = this.openedUntil !== null;
+    this.consecutiveFailures = 0;
+    this.openedUntil = null;
+    this.lastError = null;
+
+    if (wasOpen) {
+      this.onAvailabilityChange?.(null);
+    }
+  }
+
+  /**
+   * Fail fast while the circuit is open; let a trial call through after the cooldown
+   */
+  private assertAvailable(): void {
+    const unavailable = this.getUnavailable();
+    if (!unavailable) return;
+
+    if (Date.now() < unavailable.retryAt) {
+      throw new FaucetUnavailableError(unavailable);
+    }
+
+    // Cooldown elapsed: half-open, allow one trial call
+    logger.info('[FaucetGuard] Cooldown elapsed, probing faucet');
+  }
+
+  private recordSuccess(): void {
+    if (this.consecutiveFailures === 0 && this.openedUntil === null) return;
+
+    if (this.openedUntil !== null) {
+      logger.info('[FaucetGuard] Faucet recovered, closing circuit');
+    }
+    this.reset();
+  }
+
+  private recordFailure(err: Error): void {
+    this.consecutiveFailures++;
+    this.lastError = err.message;
+
+    if (!this.breaker) return;
+
+    // Open on reaching the threshold, or re-open when the half-open trial fails
+    const isHalfOpen = this.openedUntil !== null;
+    if (isHalfOpen || this.consecutiveFailures >= this.breaker.failureThreshold) {
+      this.openedUntil = Date.now() + this.breaker.cooldownMs;
+      logger.warn(
+        `[FaucetGuard] Circuit opened after ${this.consecutiveFailures} failures, cooling down for ${this.breaker.cooldownMs}ms`
+      );
+      this.onAvailabilityChange?.(this.getUnavailable());
+    }
+  }
+
+  private isRetryable(err: Error): boolean {
+    return this.retry.retryableErrors.some((pattern) =>
+      typeof pattern === 'string'
+        ? err.message.toLowerCase().includes(pattern.toLowerCase())
+        : pattern.test(err.message)
+    );
+  }
+
+  /**
+   * Exponential backoff, with "equal jitter" (half fixed, half random) when enabled
+   */
+  private getDelay(attempt: number): number {
+    const exponential = Math.min(
+      this.retry.maxDelayMs,
+      this.retry.baseDelayMs * 2 ** (attempt - 1)
+    );
+    if (!this.retry.jitter) {
+      return exponential;
+    }
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+  }
+}
+
+function toFaucetError(operation: string, err: Error): LineraError {
+  return err instanceof LineraError
+    ? err
+    : new FaucetError(`Faucet ${operation} failed: ${err.message}`, { cause: err });
+}
+
+function abortReason(operation: string, signal: AbortSignal): Error {
+  return isCancellationError(signal.reason) ? signal.reason : new AbortError(`Faucet ${operation}`, signal.reason);
+}
+
+function throwIfAborted(operation: string, signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw abortReason(operation, signal);
+  }
+}
+
+/**
+ * Wait before the next attempt (rejects as soon as the signal aborts)
+ */
+function sleep(ms: number, operation: string, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortReason(operation, signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortReason(operation, signal as AbortSignal));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
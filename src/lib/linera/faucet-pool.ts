@@ -0,0 +1,321 @@
+/**
+ * Faucet Pool
+ *
+ * Manages one or more faucet endpoints:
+ * - Health probing to pick a healthy endpoint
+ * - Ordered (priority) or weighted selection
+ * - Failover to the next endpoint when a faucet call fails
+ *
+ * Each endpoint has its own FaucetGuard (retries + circuit breaker), so a
+ * rate-limited primary faucet does not block the backup.
+ */
+
+import type { Faucet } from '@linera/client';
+import type {
+  FaucetEndpoint,
+  FaucetUrlConfig,
+  FaucetHealthCheckConfig,
+  FaucetRetryPolicy,
+  FaucetCircuitBreakerConfig,
+  FaucetUnavailable,
+} from './types';
+import { FaucetGuard } from './faucet-guard';
+import { LineraError, FaucetError, FaucetUnavailableError, NotInitializedError, toError } from './errors';
+import { isCancellationError } from './cancellation';
+import { logger } from '../../utils/logger';
+
+const DEFAULT_HEALTH_CHECK: Required<Omit<FaucetHealthCheckConfig, 'probe'>> = {
+  enabled: true,
+  timeoutMs: 5_000,
+  recheckIntervalMs: 30_000,
+};
+
+/**
+ * Options for FaucetPool
+ */
+export interface FaucetPoolOptions {
+  healthCheck?: FaucetHealthCheckConfig;
+  retry?: FaucetRetryPolicy;
+  circuitBreaker?: FaucetCircuitBreakerConfig | false;
+  /** Called when the active endpoint or the pool availability changes */
+  onChange?: () => void;
+}
+
+interface EndpointState {
+  url: string;
+  weight: number;
+  guard: FaucetGuard;
+  /** Time (ms since epoch) until which the endpoint is considered unhealthy */
+  unhealthyUntil: number;
+}
+
+/**
+ * Normalize the faucetUrl configuration into endpoints
+ */
+export function normalizeFaucetEndpoints(config: FaucetUrlConfig): FaucetEndpoint[] {
+  const list = Array.isArray(config) ? config : [config];
+  const endpoints = list.map((entry) =>
+    typeof entry === 'string' ? { url: entry } : entry
+  );
+
+  if (endpoints.length === 0) {
+    throw new LineraError('INVALID_CONFIG', 'At least one faucet URL is required');
+  }
+
+  return endpoints;
+}
+
+/**
+ * Default health probe: any GraphQL server answers `{ __typename }`
+ */
+export async function probeFaucet(url: string, timeoutMs: number): Promise<boolean> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: '{ __typename }' }),
+      signal: controller.signal,
+    });
+    return response.ok;
+  } catch {
+    return false;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Pool of faucet endpoints with health probing and failover
+ */
+export class FaucetPool {
+  private endpoints: EndpointState[];
+  private weighted: boolean;
+  private healthCheck: Required<Omit<FaucetHealthCheckConfig, 'probe'>> & Pick<FaucetHealthCheckConfig, 'probe'>;
+  private onChange?: () => void;
+
+  private createFaucet: ((url: string) => Faucet) | null = null;
+  private active: EndpointState | null = null;
+  private activeFaucet: Faucet | null = null;
+
+  constructor(config: FaucetUrlConfig, options?: FaucetPoolOptions) {
+    const endpoints = normalizeFaucetEndpoints(config);
+
+    this.weighted = endpoints.some((endpoint) => endpoint.weight !== undefined);
+    this.healthCheck = { ...DEFAULT_HEALTH_CHECK, ...options?.healthCheck };
+    this.onChange = options?.onChange;
+
+    this.endpoints = endpoints.map((endpoint) => ({
+      url: endpoint.url,
+      weight: Math.max(0, endpoint.weight ?? 1),
+      unhealthyUntil: 0,
+      guard: new FaucetGuard({
+        retry: options?.retry,
+        circuitBreaker: options?.circuitBreaker,
+        onAvailabilityChange: () => this.onChange?.(),
+      }),
+    }));
+  }
+
+  /**
+   * Provide the Faucet constructor (available once the Linera module is loaded)
+   */
+  attach(createFaucet: (url: string) => Faucet): void {
+    this.createFaucet = createFaucet;
+  }
+
+  /**
+   * URL of the active endpoint (first configured endpoint before selection)
+   */
+  getActiveUrl(): string {
+    return (this.active ?? this.endpoints[0]).url;
+  }
+
+  /**
+   * All configured endpoint URLs
+   */
+  getUrls(): string[] {
+    return this.endpoints.map((endpoint) => endpoint.url);
+  }
+
+  /**
+   * Whether a URL belongs to this pool (chains claimed from any endpoint are interchangeable)
+   */
+  has(url: string): boolean {
+    return this.endpoints.some((endpoint) => endpoint.url === url);
+  }
+
+  /**
+   * Unavailability state, set only when every endpoint's circuit is open
+   * (retryAt is the earliest time any endpoint will be probed again)
+   */
+  getUnavailable(): FaucetUnavailable | null {
+    const states = this.endpoints.map((endpoint) => endpoint.guard.getUnavailable());
+    if (states.some((state) => state === null)) {
+      return null;
+    }
+
+    return (states as FaucetUnavailable[]).reduce((earliest, state) =>
+      state.retryAt < earliest.retryAt ? state : earliest
+    );
+  }
+
+  /**
+   * Close every endpoint's circuit breaker and forget health failures
+   */
+  reset(): void {
+    for (const endpoint of this.endpoints) {
+      endpoint.unhealthyUntil = 0;
+      endpoint.guard.reset();
+    }
+  }
+
+  /**
+   * Run a faucet operation, failing over to the other endpoints on error
+   *
+   * @param signal - Stops retries and failover once aborted (AbortError or TimeoutError is thrown)
+   * @throws The last FaucetError if every endpoint failed (FaucetUnavailableError if all circuits are open)
+   */
+  async run<T>(operation: string, fn: (faucet: Faucet) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const tried = new Set<EndpointState>();
+    let lastError: Error | null = null;
+
+    for (;;) {
+      const endpoint = await this.select(tried);
+      if (!endpoint) break;
+      tried.add(endpoint);
+
+      const faucet = this.activate(endpoint);
+      try {
+        return await endpoint.guard.run(operation, () => fn(faucet), signal);
+      } catch (error) {
+        // Cancelled by the caller: do not fail over
+        if (isCancellationError(error)) throw error;
+
+        lastError = toError(error);
+        this.markUnhealthy(endpoint);
+
+        if (tried.size < this.endpoints.length) {
+          logger.warn(`[FaucetPool] ${operation} failed on ${endpoint.url}, failing over:`, lastError.message);
+        }
+      }
+    }
+
+    const unavailable = this.getUnavailable();
+    if (unavailable) {
+      throw new FaucetUnavailableError(unavailable);
+    }
+    throw lastError ?? new FaucetError('No faucet endpoint available');
+  }
+
+  /**
+   * Free the active Faucet instance
+   */
+  dispose(): void {
+    try {
+      this.activeFaucet?.free();
+    } catch (error) {
+      logger.debug('[FaucetPool] faucet.free() failed', error);
+    }
+    this.activeFaucet = null;
+    this.active = null;
+  }
+
+  /**
+   * Pick the next endpoint to try
+   *
+   * Healthy endpoints (probed if needed) come first; if none is healthy, the
+   * untried endpoints are still attempted so a failed probe is never fatal.
+   */
+  private async select(exclude: Set<EndpointState>): Promise<EndpointState | null> {
+    const candidates = this.endpoints.filter(
+      (endpoint) => !exclude.has(endpoint) && endpoint.weight > 0
+    );
+    if (candidates.length === 0) return null;
+
+    // Keep the active endpoint while it is healthy
+    if (this.active && candidates.includes(this.active) && this.isHealthy(this.active)) {
+      return this.active;
+    }
+
+    const healthy = await this.filterHealthy(candidates);
+    const pool = healthy.length > 0 ? healthy : candidates;
+
+    return this.weighted ? pickWeighted(pool) : pool[0];
+  }
+
+  /**
+   * Filter candidates by health, probing those not recently marked unhealthy
+   */
+  private async filterHealthy(candidates: EndpointState[]): Promise<EndpointState[]> {
+    const recheckable = candidates.filter((endpoint) => this.isHealthy(endpoint));
+    if (!this.healthCheck.enabled) {
+      return recheckable;
+    }
+
+    const results = await Promise.all(
+      recheckable.map(async (endpoint) => {
+        const healthy = await this.probe(endpoint.url);
+        if (!healthy) {
+          logger.warn('[FaucetPool] Health probe failed:', endpoint.url);
+          this.markUnhealthy(endpoint);
+        }
+        return healthy;
+      })
+    );
+
+    return recheckable.filter((_, index) => results[index]);
+  }
+
+  private async probe(url: string): Promise<boolean> {
+    try {
+      return this.healthCheck.probe
+        ? await this.healthCheck.probe(url)
+        : await probeFaucet(url, this.healthCheck.timeoutMs);
+    } catch {
+      return false;
+    }
+  }
+
+  private isHealthy(endpoint: EndpointState): boolean {
+    return Date.now() >= endpoint.unhealthyUntil;
+  }
+
+  private markUnhealthy(endpoint: EndpointState): void {
+    endpoint.unhealthyUntil = Date.now() + this.healthCheck.recheckIntervalMs;
+  }
+
+  /**
+   * Make an endpoint active, creating its Faucet instance if needed
+   */
+  private activate(endpoint: EndpointState): Faucet {
+    if (this.active === endpoint && this.activeFaucet) {
+      return this.activeFaucet;
+    }
+
+    if (!this.createFaucet) {
+      throw new NotInitializedError('[FaucetPool] Linera module not loaded, cannot create Faucet');
+    }
+
+    this.dispose();
+    this.activeFaucet = this.createFaucet(endpoint.url);
+    this.active = endpoint;
+    logger.info('[FaucetPool] Active faucet:', endpoint.url);
+    this.onChange?.();
+
+    return this.activeFaucet;
+  }
+}
+
+function pickWeighted(endpoints: EndpointState[]): EndpointState {
+  const total = endpoints.reduce((sum, endpoint) => sum + endpoint.weight, 0);
+  let roll = Math.random() * total;
+
+  for (const endpoint of endpoints) {
+    roll -= endpoint.weight;
+    if (roll < 0) return endpoint;
+  }
+  return endpoints[endpoints.length - 1];
+}
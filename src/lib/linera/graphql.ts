@@ -0,0 +1,296 @@
+/**
+ * GraphQL Documents
+ *
+ * Turns typed GraphQL documents (`gql` tag output, GraphQL Code Generator
+ * documents and document strings) and `{ query, variables, operationName }`
+ * request objects into Linera application requests, and parses the
+ * response envelope. Plain strings are passed through unchanged for
+ * backward compatibility.
+ *
+ * Documents without source text (generated ASTs) are printed with a
+ * minimal printer covering executable definitions, so `graphql` is not
+ * a dependency.
+ */
+
+import type {
+  DocumentNodeLike,
+  TypedDocument,
+  GraphQLRequest,
+  GraphQLResponse,
+  GraphQLErrorEntry,
+} from './types';
+import { LineraError } from './errors';
+
+/**
+ * Query or mutation argument: a raw request string, a typed document or a request object
+ */
+export type GraphQLInput = string | TypedDocument<unknown, unknown> | GraphQLRequest<unknown, unknown>;
+
+/**
+ * Whether an input is a `{ query, variables, operationName }` request object
+ */
+export function isGraphQLRequest(input: GraphQLInput): input is GraphQLRequest<unknown, unknown> {
+  return typeof input === 'object' && !(input instanceof String) && !('kind' in input) && 'query' in input;
+}
+
+/**
+ * Whether an input is a typed document (not a raw request string or a request object)
+ */
+export function isTypedDocument(input: GraphQLInput): input is TypedDocument<unknown, unknown> {
+  return typeof input !== 'string' && !isGraphQLRequest(input);
+}
+
+/**
+ * GraphQL source text of a document
+ */
+export function getDocumentSource(document: TypedDocument<unknown, never>): string {
+  if (document instanceof String) {
+    return document.toString();
+  }
+
+  const node = document as DocumentNodeLike;
+  if (node.loc?.source.body) {
+    return node.loc.source.body;
+  }
+  if (node.kind !== 'Document' || !Array.isArray(node.definitions)) {
+    throw new LineraError('INVALID_GRAPHQL_DOCUMENT', 'Invalid GraphQL document');
+  }
+  return printNode(node as unknown as AstNode);
+}
+
+/**
+ * Application request body for a document (`{"query": ..., "variables": ...}`)
+ */
+export function serializeDocumentRequest(document: TypedDocument<unknown, unknown>, variables?: unknown): string {
+  return serializeGraphQLRequest({ query: document, variables });
+}
+
+/**
+ * Application request body for a request object
+ * (JSON-encoded, so quotes and newlines in the query or variables need no escaping)
+ *
+ * @throws LineraError (INVALID_GRAPHQL_DOCUMENT) if the query is empty or the variables cannot be serialized
+ */
+export function serializeGraphQLRequest(request: GraphQLRequest<unknown, unknown>): string {
+  const query = typeof request.query === 'string' ? request.query : getDocumentSource(request.query);
+  if (!query.trim()) {
+    throw new LineraError('INVALID_GRAPHQL_DOCUMENT', 'GraphQL request has an empty query');
+  }
+
+  const body: { query: string; variables?: unknown; operationName?: string } = { query };
+  if (request.variables !== undefined) {
+    body.variables = request.variables;
+  }
+  if (request.operationName) {
+    body.operationName = request.operationName;
+  }
+
+  try {
+    return JSON.stringify(body, (_key, value: unknown) =>
+      typeof value === 'bigint' ? value.toString() : value
+    );
+  } catch (error) {
+    throw new LineraError(
+      'INVALID_GRAPHQL_DOCUMENT',
+      `GraphQL variables cannot be serialized: ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error }
+    );
+  }
+}
+
+/**
+ * Parse an application response into `data` and `errors`
+ *
+ * @throws LineraError (INVALID_GRAPHQL_RESPONSE) if the response is not a GraphQL response
+ */
+export function parseGraphQLResponse<T>(response: unknown): GraphQLResponse<T> {
+  let parsed: unknown = response;
+  if (typeof response === 'string') {
+    try {
+      parsed = JSON.parse(response);
+    } catch {
+      throw new LineraError('INVALID_GRAPHQL_RESPONSE', `Invalid GraphQL response: ${response.slice(0, 200)}`);
+    }
+  }
+  if (!parsed || typeof parsed !== 'object' || !('data' in parsed || 'errors' in parsed)) {
+    throw new LineraError('INVALID_GRAPHQL_RESPONSE', 'Invalid GraphQL response: missing data and errors');
+  }
+
+  const { data, errors } = parsed as { data?: T | null; errors?: unknown };
+  return {
+    data: data ?? null,
+    errors: Array.isArray(errors) ? errors.map(toErrorEntry) : [],
+  };
+}
+
+/**
+ * Whether a response is a GraphQL response with errors (false for anything else)
+ */
+export function hasGraphQLErrors(response: unknown): boolean {
+  try {
+    return parseGraphQLResponse(response).errors.length > 0;
+  } catch {
+    // Not a GraphQL envelope (raw string operations may return anything)
+    return false;
+  }
+}
+
+/**
+ * Read a raw request string as a request object (null if it is not a JSON request body)
+ */
+export function parseRequestBody(request: string): GraphQLRequest<unknown, unknown> | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(request);
+  } catch {
+    return null;
+  }
+  if (!parsed || typeof parsed !== 'object' || typeof (parsed as { query?: unknown }).query !== 'string') {
+    return null;
+  }
+
+  const { query, variables, operationName } = parsed as { query: string; variables?: unknown; operationName?: unknown };
+  return {
+    query,
+    variables,
+    operationName: typeof operationName === 'string' ? operationName : undefined,
+  };
+}
+
+function toErrorEntry(error: unknown): GraphQLErrorEntry {
+  if (error && typeof error === 'object' && typeof (error as GraphQLErrorEntry).message === 'string') {
+    return error as GraphQLErrorEntry;
+  }
+  return { message: typeof error === 'string' ? error : JSON.stringify(error) };
+}
+
+// ============================================
+// PRINTER (executable definitions only)
+// ============================================
+
+// graphql-js AST node (fields are read through the accessors below)
+type AstNode = { kind: string } & Record<string, unknown>;
+
+function isAstNode(value: unknown): value is AstNode {
+  return typeof value === 'object' && value !== null && typeof (value as { kind?: unknown }).kind === 'string';
+}
+
+function invalidNode(node: AstNode, key: string): LineraError {
+  return new LineraError('INVALID_GRAPHQL_DOCUMENT', `Invalid GraphQL document: ${node.kind}.${key} is malformed`);
+}
+
+/** Optional child node (`alias`, `selectionSet`, ...) */
+function optionalChild(node: AstNode, key: string): AstNode | undefined {
+  const value = node[key];
+  if (value === undefined || value === null) return undefined;
+  if (!isAstNode(value)) throw invalidNode(node, key);
+  return value;
+}
+
+/** Required child node */
+function child(node: AstNode, key: string): AstNode {
+  const value = optionalChild(node, key);
+  if (!value) throw invalidNode(node, key);
+  return value;
+}
+
+/** Child node list (empty when absent) */
+function children(node: AstNode, key: string): AstNode[] {
+  const value = node[key];
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || !value.every(isAstNode)) throw invalidNode(node, key);
+  return value;
+}
+
+/** String field (`operation`, `value` of a Name or scalar) */
+function text(node: AstNode, key: string): string {
+  const value = node[key];
+  if (typeof value !== 'string') throw invalidNode(node, key);
+  return value;
+}
+
+/** Value of a Name child (`name`, `alias`) */
+function nameOf(node: AstNode, key = 'name'): string {
+  return text(child(node, key), 'value');
+}
+
+function printList(node: AstNode, key: string, separator: string): string {
+  return children(node, key).map(printNode).join(separator);
+}
+
+function printNode(node: AstNode): string {
+  switch (node.kind) {
+    case 'Document':
+      return printList(node, 'definitions', '\n');
+    case 'OperationDefinition': {
+      const operation = text(node, 'operation');
+      const name = optionalChild(node, 'name');
+      const variables = children(node, 'variableDefinitions').length
+        ? `(${printList(node, 'variableDefinitions', ', ')})`
+        : '';
+      const header = name || variables || children(node, 'directives').length
+        ? `${operation}${name ? ` ${text(name, 'value')}` : ''}${variables}${printDirectives(node)} `
+        : operation === 'query' ? '' : `${operation} `;
+      return header + printNode(child(node, 'selectionSet'));
+    }
+    case 'FragmentDefinition':
+      return `fragment ${nameOf(node)} on ${nameOf(child(node, 'typeCondition'))}` +
+        `${printDirectives(node)} ${printNode(child(node, 'selectionSet'))}`;
+    case 'VariableDefinition': {
+      const defaultValue = optionalChild(node, 'defaultValue');
+      return `$${nameOf(child(node, 'variable'))}: ${printNode(child(node, 'type'))}` +
+        `${defaultValue ? ` = ${printNode(defaultValue)}` : ''}${printDirectives(node)}`;
+    }
+    case 'SelectionSet':
+      return `{ ${printList(node, 'selections', ' ')} }`;
+    case 'Field': {
+      const alias = optionalChild(node, 'alias') ? `${nameOf(node, 'alias')}: ` : '';
+      const args = children(node, 'arguments').length ? `(${printList(node, 'arguments', ', ')})` : '';
+      const selectionSet = optionalChild(node, 'selectionSet');
+      const selections = selectionSet ? ` ${printNode(selectionSet)}` : '';
+      return `${alias}${nameOf(node)}${args}${printDirectives(node)}${selections}`;
+    }
+    case 'Argument':
+    case 'ObjectField':
+      return `${nameOf(node)}: ${printNode(child(node, 'value'))}`;
+    case 'FragmentSpread':
+      return `...${nameOf(node)}${printDirectives(node)}`;
+    case 'InlineFragment': {
+      const typeCondition = optionalChild(node, 'typeCondition');
+      return `...${typeCondition ? ` on ${nameOf(typeCondition)}` : ''}` +
+        `${printDirectives(node)} ${printNode(child(node, 'selectionSet'))}`;
+    }
+    case 'Directive': {
+      const args = children(node, 'arguments').length ? `(${printList(node, 'arguments', ', ')})` : '';
+      return `@${nameOf(node)}${args}`;
+    }
+    case 'Variable':
+      return `$${nameOf(node)}`;
+    case 'IntValue':
+    case 'FloatValue':
+    case 'EnumValue':
+      return text(node, 'value');
+    case 'StringValue':
+      return JSON.stringify(text(node, 'value'));
+    case 'BooleanValue':
+      return node.value ? 'true' : 'false';
+    case 'NullValue':
+      return 'null';
+    case 'ListValue':
+      return `[${printList(node, 'values', ', ')}]`;
+    case 'ObjectValue':
+      return `{${printList(node, 'fields', ', ')}}`;
+    case 'NamedType':
+      return nameOf(node);
+    case 'ListType':
+      return `[${printNode(child(node, 'type'))}]`;
+    case 'NonNullType':
+      return `${printNode(child(node, 'type'))}!`;
+    default:
+      throw new LineraError('INVALID_GRAPHQL_DOCUMENT', `Unsupported GraphQL document node: ${node.kind}`);
+  }
+}
+
+function printDirectives(node: AstNode): string {
+  return children(node, 'directives').length ? ` ${printList(node, 'directives', ' ')}` : '';
+}
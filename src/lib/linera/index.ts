@@ -12,8 +12,72 @@ export {
   resetLineraClientManager,
 } from './client-manager';
 
-export { ApplicationClientImpl, ChainApplicationClient } from './application-client';
+export {
+  ApplicationClientImpl,
+  ChainApplicationClient,
+  bindApplicationSignal,
+  bindChainAppSignal,
+} from './application-client';
 export { TemporarySigner } from './temporary-signer';
+export { FaucetGuard, DEFAULT_RETRYABLE_FAUCET_ERRORS } from './faucet-guard';
+export { FaucetPool, normalizeFaucetEndpoints, probeFaucet } from './faucet-pool';
+export { TypedEventEmitter, type EventListener } from './events';
+export { Mutex } from './mutex';
+export {
+  LineraError,
+  QueryError,
+  MutationError,
+  SignatureRejectedError,
+  WalletNotConnectedError,
+  FaucetError,
+  FaucetUnavailableError,
+  WasmRuntimeError,
+  NotInitializedError,
+  ChainNotOwnedError,
+  TimeoutError,
+  AbortError,
+  isLineraError,
+  isSignatureRejection,
+  type LineraErrorCode,
+  type LineraErrorOptions,
+  type OperationErrorOptions,
+} from './errors';
+export {
+  isCancellationError,
+  withCancellation,
+  DEFAULT_OPERATION_TIMEOUTS,
+} from './cancellation';
+export { DiagnosticsRecorder, describeEnvironment } from './diagnostics';
+export {
+  isTypedDocument,
+  isGraphQLRequest,
+  getDocumentSource,
+  serializeDocumentRequest,
+  serializeGraphQLRequest,
+  parseGraphQLResponse,
+  type GraphQLInput,
+} from './graphql';
+export { Amount, CHAIN_ACCOUNT_OWNER, TOKEN_DECIMALS, type AmountInput } from './tokens';
+export {
+  CLIENT_MODE_TRANSITIONS,
+  canTransition,
+  isReadyMode,
+} from './client-mode';
+export { NotificationHub, getNotificationKind, type NotificationHubOptions } from './notifications';
+export { ChainCache, type ChainCacheOptions, type ChainEvictionReason } from './chain-cache';
+export { QueryCache, type QueryCacheOptions, type QueryCacheKey, type OptimisticLayer } from './query-cache';
+export { QueryBatcher, type QueryBatcherOptions } from './query-batcher';
+export { PendingMutationRegistry, optimisticUpdate, type PendingMutationRegistryOptions } from './pending-mutations';
+export { RecoverySupervisor, isWasmRuntimeError } from './recovery';
+export { WalletChainRegistry, type WalletChainEntry } from './wallet-chain-registry';
+export {
+  loadLineraModule,
+  resolveModuleUrl,
+  validateLineraModule,
+  DEFAULT_LINERA_BASE_PATH,
+  isNodeRuntime,
+  describeModuleSource,
+} from './module-loader';
 
 // Type exports
 export {
@@ -21,12 +85,76 @@ export {
   type ClientState,
   type ClientConfig,
   type ReadOnlyWalletConfig,
+  type LazyInitConfig,
+  type LazyClaimStatus,
+  type ExistingChainsConfig,
+  type ClaimChainOptions,
+  type OwnedChain,
+  type ChainOwnership,
+  type TokenAccount,
+  type TransferRequest,
+  type ChainNotification,
+  type ChainNotificationKind,
+  type NotificationFilter,
+  type NotificationHandler,
+  type SubscribeOptions,
+  type WalletFactory,
+  type PersistedPublicChain,
+  type WalletChainRegistryConfig,
+  type FaucetEndpoint,
+  type FaucetUrlConfig,
+  type FaucetHealthCheckConfig,
+  type FaucetRetryPolicy,
+  type FaucetCircuitBreakerConfig,
+  type FaucetUnavailable,
+  type RecoveryPolicy,
+  type RecoveryEvent,
+  type RecoveryEventCallback,
+  type ReinitOptions,
+  type ChainCacheConfig,
+  type ChainCacheStats,
+  type QueryCacheConfig,
+  type QueryCacheStats,
+  type QueryBatchingConfig,
+  type CacheStats,
+  type OperationTimeoutConfig,
+  type CancellationOptions,
+  type OperationOptions,
+  type MutationOptions,
+  type OptimisticMutation,
+  type OptimisticQueryUpdate,
+  type PendingMutation,
+  type QueryChange,
+  type DocumentTypeDecoration,
+  type DocumentNodeLike,
+  type TypedDocumentNode,
+  type TypedDocumentString,
+  type TypedDocument,
+  type ResultOf,
+  type VariablesOf,
+  type DocumentOperationOptions,
+  type DocumentOperationArgs,
+  type GraphQLRequest,
+  type GraphQLResponse,
+  type GraphQLErrorEntry,
+  type DiagnosticsConfig,
+  type LineraDiagnosticsReport,
+  type ModeHistoryEntry,
+  type DiagnosticsErrorEntry,
+  type OperationTiming,
+  type OperationObserver,
+  type OperationInfo,
+  type OperationResult,
+  type LineraClientEvents,
+  type LineraClientEventName,
   type ApplicationClient,
   type PublicApp,
   type WalletApp,
   type ChainApp,
   type StateChangeCallback,
   type ILineraClientManager,
+  type LineraModule,
+  type LineraModuleLoader,
   type Client,
   type Wallet,
   type Signer,
@@ -0,0 +1,237 @@
+/**
+ * Linera Module Loader
+ *
+ * Resolves and loads the Linera WASM module according to
+ * `ClientConfig.moduleLoader`. Supports:
+ * 1. Full module URL (absolute or relative to the page origin)
+ * 2. Base path of the copied Linera assets (CDN or sub-path deployments)
+ * 3. Async factory returning the module (bundler-resolved imports, tests)
+ * 4. Package import (`{ package }`), optionally reading the WASM binary from disk
+ */
+
+import type { LineraModule, LineraModuleLoader } from './types';
+import { LineraError, toError } from './errors';
+import { logger } from '../../utils/logger';
+
+/**
+ * Default location of the Linera assets copied by the postinstall script
+ */
+export const DEFAULT_LINERA_BASE_PATH = '/linera';
+
+/**
+ * Module entry file, relative to the base path
+ */
+const MODULE_ENTRY = 'wasm/index.js';
+
+/**
+ * WASM binary inside the Linera package
+ */
+const PACKAGE_WASM_PATH = 'dist/wasm/index_bg.wasm';
+
+// Use Function constructor to create dynamic import that Turbopack can't analyze
+// This bypasses static analysis while still loading the module at runtime
+const importModule = new Function('url', 'return import(url)') as (url: string) => Promise<unknown>;
+
+/**
+ * Whether the code runs under Node.js (no DOM)
+ */
+export function isNodeRuntime(): boolean {
+  return typeof window === 'undefined' &&
+    typeof process !== 'undefined' &&
+    typeof process.versions?.node === 'string';
+}
+
+/**
+ * Exports every Linera module must provide (constructors used by the manager)
+ */
+const REQUIRED_CONSTRUCTORS = ['Client', 'Faucet'] as const;
+
+/**
+ * Load the Linera module using the configured loader
+ *
+ * @param loader - Loader from ClientConfig (defaults to `/linera/wasm/index.js`)
+ * @returns Validated Linera module
+ */
+export async function loadLineraModule(loader?: LineraModuleLoader): Promise<LineraModule> {
+  if (typeof loader === 'function') {
+    logger.info('[ModuleLoader] Loading Linera module from custom factory');
+    const loaded = await loader();
+    return validateLineraModule(loaded, 'custom factory');
+  }
+
+  if (typeof loader === 'object' && 'package' in loader) {
+    return loadLineraPackage(loader);
+  }
+
+  const moduleUrl = resolveModuleUrl(loader);
+  logger.info('[ModuleLoader] Loading Linera module from:', moduleUrl);
+
+  let loaded: unknown;
+  try {
+    loaded = await importModule(moduleUrl);
+  } catch (error) {
+    const err = toError(error);
+    throw new LineraError('MODULE_LOAD_FAILED', `Failed to load Linera module from ${moduleUrl}: ${err.message}`, { cause: err });
+  }
+
+  return validateLineraModule(loaded, moduleUrl);
+}
+
+/**
+ * Resolve the module URL for string and base-path loaders
+ *
+ * Relative URLs are resolved against the current page origin.
+ */
+export function resolveModuleUrl(loader?: string | { basePath: string }): string {
+  const url = typeof loader === 'string'
+    ? loader
+    : `${trimTrailingSlash(loader?.basePath ?? DEFAULT_LINERA_BASE_PATH)}/${MODULE_ENTRY}`;
+
+  if (/^[a-z][a-z\d+.-]*:/i.test(url)) {
+    return url;
+  }
+
+  const origin = typeof window !== 'undefined' ? window.location.origin : '';
+  return `${origin}${url.startsWith('/') ? '' : '/'}${url}`;
+}
+
+/**
+ * Validate the shape of a loaded module
+ *
+ * Accepts both the raw WASM glue module (init as default export) and the
+ * `@linera/client` package entry (init exported as `initialize`).
+ *
+ * @throws LineraError (MODULE_LOAD_FAILED) listing every missing export
+ */
+export function validateLineraModule(loaded: unknown, source: string): LineraModule {
+  if (!loaded || (typeof loaded !== 'object' && typeof loaded !== 'function')) {
+    throw new LineraError(
+      'MODULE_LOAD_FAILED',
+      `Invalid Linera module from ${source}: expected a module object, got ${typeof loaded}`
+    );
+  }
+
+  const candidate = loaded as Record<string, unknown>;
+  const init = typeof candidate.default === 'function'
+    ? candidate.default
+    : candidate.initialize;
+
+  const missing: string[] = REQUIRED_CONSTRUCTORS.filter(
+    (name) => typeof candidate[name] !== 'function'
+  );
+  if (typeof init !== 'function') {
+    missing.unshift('default (WASM init)');
+  }
+
+  if (missing.length > 0) {
+    throw new LineraError(
+      'MODULE_LOAD_FAILED',
+      `Invalid Linera module from ${source}: missing export(s) ${missing.join(', ')}`
+    );
+  }
+
+  logger.debug('[ModuleLoader] Linera module validated:', source);
+
+  return { ...candidate, default: init } as unknown as LineraModule;
+}
+
+/**
+ * Import the Linera package by name
+ *
+ * Under Node.js the WASM init is wrapped to pass the binary read from disk:
+ * the wasm-bindgen glue fetches `index_bg.wasm` by URL, and Node's fetch
+ * cannot read `file:` URLs.
+ */
+async function loadLineraPackage(loader: { package: string; wasmPath?: string }): Promise<LineraModule> {
+  logger.info('[ModuleLoader] Loading Linera package:', loader.package);
+
+  let loaded: unknown;
+  try {
+    loaded = await importModule(loader.package);
+  } catch (error) {
+    const err = toError(error);
+    throw new LineraError('MODULE_LOAD_FAILED', `Failed to load Linera package ${loader.package}: ${err.message}`, { cause: err });
+  }
+
+  const lineraModule = validateLineraModule(loaded, loader.package);
+  if (!isNodeRuntime()) {
+    return lineraModule;
+  }
+
+  const init = lineraModule.default;
+  const initFromDisk = async () => {
+    const { readFile } = await importModule('node:fs/promises') as typeof import('node:fs/promises');
+    const wasmPath = loader.wasmPath ?? await findPackageFile(loader.package, PACKAGE_WASM_PATH);
+    if (!wasmPath) {
+      throw new LineraError(
+        'MODULE_LOAD_FAILED',
+        `Cannot find ${PACKAGE_WASM_PATH} of ${loader.package} from ${process.cwd()}; set moduleLoader.wasmPath`
+      );
+    }
+    logger.debug('[ModuleLoader] Loading WASM binary from:', wasmPath);
+    return init({ module_or_path: await readFile(wasmPath) });
+  };
+
+  return {
+    ...lineraModule,
+    default: initFromDisk as LineraModule['default'],
+    version: lineraModule.version ?? await readPackageVersion(loader.package),
+  };
+}
+
+/**
+ * Describe where a loader takes the module from (for diagnostics)
+ */
+export function describeModuleSource(loader?: LineraModuleLoader): string {
+  if (typeof loader === 'function') {
+    return 'custom factory';
+  }
+  if (typeof loader === 'object' && 'package' in loader) {
+    return `package ${loader.package}`;
+  }
+  return resolveModuleUrl(loader);
+}
+
+/**
+ * Find a file of a package in node_modules, walking up from the working directory
+ *
+ * @returns Absolute path, or null if not found
+ */
+async function findPackageFile(packageName: string, relativePath: string): Promise<string | null> {
+  const { access } = await importModule('node:fs/promises') as typeof import('node:fs/promises');
+  const path = await importModule('node:path') as typeof import('node:path');
+
+  let dir = process.cwd();
+  for (;;) {
+    const candidate = path.join(dir, 'node_modules', packageName, relativePath);
+    try {
+      await access(candidate);
+      return candidate;
+    } catch {
+      const parent = path.dirname(dir);
+      if (parent === dir) return null;
+      dir = parent;
+    }
+  }
+}
+
+/**
+ * Read the installed version of a package (undefined if unknown)
+ */
+async function readPackageVersion(packageName: string): Promise<string | undefined> {
+  try {
+    const packageJsonPath = await findPackageFile(packageName, 'package.json');
+    if (!packageJsonPath) return undefined;
+
+    const { readFile } = await importModule('node:fs/promises') as typeof import('node:fs/promises');
+    const { version } = JSON.parse(await readFile(packageJsonPath, 'utf8')) as { version?: unknown };
+    return typeof version === 'string' ? version : undefined;
+  } catch (error) {
+    logger.debug(`[ModuleLoader] Could not read ${packageName} version`, error);
+    return undefined;
+  }
+}
+
+function trimTrailingSlash(path: string): string {
+  return path.endsWith('/') ? path.slice(0, -1) : path;
+}
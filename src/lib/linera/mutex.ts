@@ -0,0 +1,40 @@
+/**
+ * Async Mutex
+ *
+ * Serializes async operations (FIFO). Used to keep wallet transitions
+ * (connect, disconnect, switch, reinit) from interleaving.
+ */
+
+export class Mutex {
+  private tail: Promise<void> = Promise.resolve();
+  private pending = 0;
+
+  /**
+   * Run an operation once every previously queued operation has settled
+   *
+   * Not reentrant: calling runExclusive from inside a locked operation deadlocks.
+   */
+  async runExclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const previous = this.tail;
+    let release!: () => void;
+    this.tail = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+
+    this.pending++;
+    try {
+      await previous;
+      return await operation();
+    } finally {
+      this.pending--;
+      release();
+    }
+  }
+
+  /**
+   * Whether an operation is running or queued
+   */
+  isLocked(): boolean {
+    return this.pending > 0;
+  }
+}
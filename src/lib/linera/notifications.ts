@@ -0,0 +1,285 @@
+/**
+ * Chain Notifications
+ *
+ * Multiplexes chain notifications to reference-counted subscribers:
+ * - One `onNotification` handler per `Chain` instance, shared by all subscribers of the chain
+ * - Subscribed chains stay pinned in the chain cache
+ * - Subscriptions are rebound when the chain instance changes (reinit, wallet connect/switch)
+ * - A chain that fails to load is retried with exponential backoff; each failure
+ *   is reported to the subscribers' `onError`
+ *
+ * `Chain.onNotification()` cannot be undone: a handler left on a replaced chain
+ * instance is ignored instead of being removed.
+ */
+
+import type { Chain } from '@linera/client';
+import type {
+  ChainNotification,
+  ChainNotificationKind,
+  NotificationFilter,
+  NotificationHandler,
+} from './types';
+import { toError } from './errors';
+import { logger } from '../../utils/logger';
+
+/**
+ * Backoff of failed chain bindings
+ */
+export const DEFAULT_BIND_RETRY = {
+  initialDelayMs: 1_000,
+  maxDelayMs: 30_000,
+};
+
+/**
+ * Options for NotificationHub
+ */
+export interface NotificationHubOptions {
+  /** Load the chain instance delivering a chain's notifications */
+  resolveChain: (chainId: string) => Promise<Chain>;
+
+  /** Keep a chain cached while it has subscribers (returns the release function) */
+  pinChain: (chainId: string) => () => void;
+
+  /** Whether chains can be loaded now (retries wait for the next rebind otherwise) */
+  canBind?: () => boolean;
+
+  /** Backoff of failed bindings */
+  retry?: Partial<typeof DEFAULT_BIND_RETRY>;
+}
+
+interface NotificationListener {
+  filter: NotificationFilter;
+  handler: NotificationHandler;
+  onError?: (error: Error) => void;
+}
+
+interface ChainSubscription {
+  listeners: Set<NotificationListener>;
+  releasePin: () => void;
+  /** Chain instance currently delivering notifications (null until bound) */
+  chain: Chain | null;
+  /** Bumped on each bind so only the latest resolution is kept */
+  bindToken: number;
+  /** Consecutive failed bindings */
+  failures: number;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Reference-counted chain notification subscriptions
+ */
+export class NotificationHub {
+  private resolveChain: (chainId: string) => Promise<Chain>;
+  private pinChain: (chainId: string) => () => void;
+  private canBind: () => boolean;
+  private retry: typeof DEFAULT_BIND_RETRY;
+  private subscriptions: Map<string, ChainSubscription> = new Map();
+  // Chain instances that already carry our handler (onNotification adds a stream per call)
+  private hookedChains: WeakSet<Chain> = new WeakSet();
+
+  constructor(options: NotificationHubOptions) {
+    this.resolveChain = options.resolveChain;
+    this.pinChain = options.pinChain;
+    this.canBind = options.canBind ?? (() => true);
+    this.retry = { ...DEFAULT_BIND_RETRY, ...options.retry };
+  }
+
+  /**
+   * Add a subscriber (an unbound chain is bound right away when `bind` is true)
+   *
+   * @param bind - Whether the chain can be loaded now (false before initialization)
+   * @param onError - Called when the chain cannot be bound (retried with backoff)
+   * @returns Function removing this subscriber
+   */
+  subscribe(
+    chainId: string,
+    filter: NotificationFilter,
+    handler: NotificationHandler,
+    bind: boolean,
+    onError?: (error: Error) => void
+  ): () => void {
+    let subscription = this.subscriptions.get(chainId);
+    if (!subscription) {
+      subscription = {
+        listeners: new Set(),
+        releasePin: this.pinChain(chainId),
+        chain: null,
+        bindToken: 0,
+        failures: 0,
+        retryTimer: null,
+      };
+      this.subscriptions.set(chainId, subscription);
+    }
+
+    const listener: NotificationListener = { filter, handler, onError };
+    subscription.listeners.add(listener);
+    logger.debug(`[Notifications] Subscribed to ${chainId} (${subscription.listeners.size} listener(s))`);
+
+    if (bind && !subscription.chain) {
+      void this.bind(chainId);
+    }
+
+    let removed = false;
+    return () => {
+      if (removed) return;
+      removed = true;
+      this.unsubscribe(chainId, listener);
+    };
+  }
+
+  /**
+   * Rebind every subscribed chain to its current chain instance
+   * (no-op for chains whose instance did not change)
+   */
+  rebindAll(): void {
+    this.subscriptions.forEach((_, chainId) => {
+      void this.bind(chainId);
+    });
+  }
+
+  /**
+   * Forget the bound chain instances (they are about to be freed); subscribers are kept
+   */
+  detachAll(): void {
+    this.subscriptions.forEach((subscription) => {
+      subscription.chain = null;
+      subscription.bindToken++;
+      this.cancelRetry(subscription);
+    });
+  }
+
+  /**
+   * Drop every subscription and release the pins
+   */
+  clear(): void {
+    this.subscriptions.forEach((subscription) => {
+      this.cancelRetry(subscription);
+      subscription.releasePin();
+    });
+    this.subscriptions.clear();
+  }
+
+  private unsubscribe(chainId: string, listener: NotificationListener): void {
+    const subscription = this.subscriptions.get(chainId);
+    if (!subscription || !subscription.listeners.delete(listener)) return;
+
+    if (subscription.listeners.size === 0) {
+      subscription.bindToken++;
+      this.cancelRetry(subscription);
+      subscription.releasePin();
+      this.subscriptions.delete(chainId);
+      logger.debug(`[Notifications] Last listener left ${chainId}`);
+    }
+  }
+
+  /**
+   * Attach the shared handler to the chain's current instance
+   */
+  private async bind(chainId: string): Promise<void> {
+    const subscription = this.subscriptions.get(chainId);
+    if (!subscription) return;
+
+    // A rebind supersedes a scheduled retry
+    this.cancelRetry(subscription);
+    const token = ++subscription.bindToken;
+    const isCurrent = () => this.subscriptions.get(chainId) === subscription && subscription.bindToken === token;
+
+    let chain: Chain;
+    try {
+      chain = await this.resolveChain(chainId);
+    } catch (error) {
+      if (isCurrent()) this.bindFailed(chainId, subscription, 'load', error);
+      return;
+    }
+
+    // Unsubscribed, detached or rebound meanwhile
+    if (!isCurrent()) return;
+    if (subscription.chain === chain) {
+      subscription.failures = 0;
+      return;
+    }
+
+    if (!this.hookedChains.has(chain)) {
+      try {
+        chain.onNotification((notification: ChainNotification) => this.dispatch(chainId, chain, notification));
+      } catch (error) {
+        this.bindFailed(chainId, subscription, 'watch', error);
+        return;
+      }
+      this.hookedChains.add(chain);
+    }
+
+    subscription.chain = chain;
+    subscription.failures = 0;
+    logger.debug(`[Notifications] Bound ${chainId}`);
+  }
+
+  /**
+   * Report a failed binding to the subscribers and schedule a retry
+   */
+  private bindFailed(chainId: string, subscription: ChainSubscription, step: 'load' | 'watch', error: unknown): void {
+    const err = toError(error);
+    const delay = Math.min(this.retry.initialDelayMs * 2 ** subscription.failures, this.retry.maxDelayMs);
+    subscription.failures++;
+    logger.warn(`[Notifications] Failed to ${step} chain ${chainId} (attempt ${subscription.failures}), retrying in ${delay}ms:`, err);
+
+    [...subscription.listeners].forEach((listener) => {
+      try {
+        listener.onError?.(err);
+      } catch (listenerError) {
+        logger.error(`[Notifications] Error listener failed on ${chainId}:`, listenerError);
+      }
+    });
+
+    subscription.retryTimer = setTimeout(() => {
+      subscription.retryTimer = null;
+      // Not ready (e.g. reinit in progress): the next rebindAll() binds it
+      if (this.canBind()) void this.bind(chainId);
+    }, delay);
+  }
+
+  private cancelRetry(subscription: ChainSubscription): void {
+    if (subscription.retryTimer) {
+      clearTimeout(subscription.retryTimer);
+      subscription.retryTimer = null;
+    }
+  }
+
+  private dispatch(chainId: string, chain: Chain, notification: ChainNotification): void {
+    const subscription = this.subscriptions.get(chainId);
+    // Handler left on a replaced chain instance
+    if (!subscription || subscription.chain !== chain) return;
+
+    // Copy: handlers may unsubscribe while we iterate
+    [...subscription.listeners].forEach((listener) => {
+      try {
+        if (matchesFilter(listener.filter, notification)) {
+          listener.handler(notification);
+        }
+      } catch (error) {
+        logger.error(`[Notifications] Listener error on ${chainId}:`, error);
+      }
+    });
+  }
+}
+
+/**
+ * Kind of a notification (the key of its `reason`)
+ */
+export function getNotificationKind(notification: ChainNotification): ChainNotificationKind | string | null {
+  const reason: unknown = notification?.reason;
+  if (typeof reason === 'string') return reason;
+  if (reason && typeof reason === 'object') {
+    return Object.keys(reason)[0] ?? null;
+  }
+  return null;
+}
+
+function matchesFilter(filter: NotificationFilter, notification: ChainNotification): boolean {
+  if (filter === null) return true;
+  if (typeof filter === 'function') return filter(notification);
+
+  const kind = getNotificationKind(notification);
+  if (typeof filter === 'string') return kind === filter;
+  return kind !== null && (filter as readonly string[]).includes(kind);
+}
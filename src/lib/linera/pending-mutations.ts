@@ -0,0 +1,119 @@
+/**
+ * Pending Mutations
+ *
+ * Registry of wallet mutations waiting on the signature and block execution,
+ * so components can render "pending" rows. Optimistic updates of a mutation
+ * are layered on the query cache while it is pending, and removed when it
+ * settles: on success the patched results are refetched, on failure
+ * (including a rejected signature) the previous results come back.
+ */
+
+import type {
+  OptimisticMutation,
+  OptimisticQueryUpdate,
+  PendingMutation,
+  TypedDocument,
+} from './types';
+import type { OptimisticLayer, QueryCache } from './query-cache';
+import { getDocumentSource } from './graphql';
+import { logger } from '../../utils/logger';
+
+/**
+ * Build an optimistic update with `data` and `variables` typed from the query document
+ *
+ * @example
+ * ```typescript
+ * optimisticUpdate({
+ *   query: GetMessages,
+ *   update: (data) => ({ messages: [...data.messages, message] }),
+ * })
+ * ```
+ */
+export function optimisticUpdate<TData, TVariables>(update: {
+  query: TypedDocument<TData, TVariables>;
+  variables?: TVariables;
+  update: (data: TData) => TData;
+}): OptimisticQueryUpdate {
+  return update;
+}
+
+/**
+ * Options for PendingMutationRegistry
+ */
+export interface PendingMutationRegistryOptions {
+  /** Cache patched by optimistic updates */
+  queryCache: QueryCache;
+
+  /** Called whenever a mutation starts or settles, with all pending mutations */
+  onChange?: (pending: PendingMutation[]) => void;
+}
+
+/**
+ * Pending wallet mutations and their optimistic updates
+ */
+export class PendingMutationRegistry {
+  private queryCache: QueryCache;
+  private onChange?: (pending: PendingMutation[]) => void;
+  private pending: Map<number, PendingMutation> = new Map();
+  private counter = 0;
+
+  constructor(options: PendingMutationRegistryOptions) {
+    this.queryCache = options.queryCache;
+    this.onChange = options.onChange;
+  }
+
+  /**
+   * Register a mutation and apply its optimistic updates
+   *
+   * @returns Function settling the mutation (only the first call counts)
+   */
+  begin(appId: string, chainId: string | undefined, optimistic?: OptimisticMutation): (succeeded: boolean) => void {
+    const mutation: PendingMutation = {
+      id: ++this.counter,
+      appId,
+      chainId,
+      startedAt: Date.now(),
+      data: optimistic?.data,
+    };
+
+    const updates = optimistic?.updates ?? [];
+    if (updates.length > 0 && !this.queryCache.isEnabled()) {
+      logger.warn('[PendingMutations] Optimistic updates need queryCache={{ enabled: true }}, ignoring them');
+    } else {
+      this.queryCache.addOptimistic(mutation.id, updates.map((update): OptimisticLayer => ({
+        appId,
+        query: typeof update.query === 'string' ? update.query : getDocumentSource(update.query),
+        variables: update.variables,
+        update: update.update,
+      })));
+    }
+
+    this.pending.set(mutation.id, mutation);
+    this.notify();
+
+    let settled = false;
+    return (succeeded) => {
+      if (settled) return;
+      settled = true;
+      this.queryCache.settleOptimistic(mutation.id, succeeded);
+      this.pending.delete(mutation.id);
+      this.notify();
+    };
+  }
+
+  /**
+   * Pending mutations, oldest first (optionally of one application)
+   */
+  list(appId?: string): PendingMutation[] {
+    const all = [...this.pending.values()];
+    return appId === undefined ? all : all.filter((mutation) => mutation.appId === appId);
+  }
+
+  private notify(): void {
+    try {
+      this.onChange?.(this.list());
+    } catch (error) {
+      logger.error('[PendingMutations] Change listener error:', error);
+    }
+  }
+}
@@ -0,0 +1,470 @@
+/**
+ * Query Batcher
+ *
+ * Opt-in batching of `public.query` requests:
+ * - Queries sent to an application within `windowMs` (the same tick by
+ *   default) are merged into one GraphQL document, up to `maxBatchSize`
+ * - Top-level fields, variables and fragments of each query get a unique
+ *   prefix (`b0_`, `b1_`, ...), so the queries cannot collide
+ * - The response is split back per caller, with the prefixes removed
+ * - Identical requests in a batch share one slot
+ *
+ * Failures stay per caller: a GraphQL error on a field only reaches the
+ * query that selected it. When the batch cannot be split (the request
+ * failed, or an error belongs to no single query), the queries are sent
+ * again one by one. Requests that cannot be merged (mutations, several
+ * operations, top-level fragment spreads, raw non-JSON strings) are sent
+ * unchanged.
+ */
+
+import type { QueryOptions } from '@linera/client';
+import type { QueryBatchingConfig } from './types';
+import { parseRequestBody } from './graphql';
+import { isWasmRuntimeError } from './recovery';
+import { logger } from '../../utils/logger';
+
+const DEFAULT_QUERY_BATCHING: Required<QueryBatchingConfig> = {
+  enabled: false,
+  windowMs: 0,
+  maxBatchSize: 10,
+};
+
+/**
+ * Options for QueryBatcher
+ */
+export interface QueryBatcherOptions extends QueryBatchingConfig {
+  /** Send a request to the application (the merged request of a batch, or a single query) */
+  send: (request: string, options?: QueryOptions) => Promise<string>;
+}
+
+interface BatchItem {
+  request: string;
+  /** Parsed query, or null if the request cannot be merged */
+  query: ParsedQuery | null;
+  promise: Promise<string>;
+  resolve: (response: string) => void;
+  reject: (error: unknown) => void;
+}
+
+interface Batch {
+  options?: QueryOptions;
+  items: Map<string, BatchItem>;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Merges concurrent queries to one application into batched requests
+ */
+export class QueryBatcher {
+  private config: Required<QueryBatchingConfig>;
+  private send: (request: string, options?: QueryOptions) => Promise<string>;
+  // Open batches, per query options
+  private batches: Map<string, Batch> = new Map();
+
+  constructor(options: QueryBatcherOptions) {
+    const { send, ...config } = options;
+    this.config = { ...DEFAULT_QUERY_BATCHING, ...config };
+    this.config.maxBatchSize = Math.max(1, this.config.maxBatchSize);
+    this.send = send;
+  }
+
+  /**
+   * Queue a query for the next batch
+   *
+   * @returns The response of this query alone
+   */
+  load(request: string, options?: QueryOptions): Promise<string> {
+    const query = parseQuery(request);
+    if (!query) {
+      return this.send(request, options);
+    }
+
+    const batchKey = JSON.stringify(options ?? null);
+    let batch = this.batches.get(batchKey);
+    if (!batch) {
+      const created: Batch = {
+        options,
+        items: new Map(),
+        timer: setTimeout(() => this.flush(batchKey, created), this.config.windowMs),
+      };
+      batch = created;
+      this.batches.set(batchKey, batch);
+    }
+
+    const existing = batch.items.get(request);
+    if (existing) {
+      return existing.promise;
+    }
+
+    let resolve!: (response: string) => void;
+    let reject!: (error: unknown) => void;
+    const promise = new Promise<string>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    batch.items.set(request, { request, query, promise, resolve, reject });
+
+    if (batch.items.size >= this.config.maxBatchSize) {
+      clearTimeout(batch.timer);
+      this.flush(batchKey, batch);
+    }
+    return promise;
+  }
+
+  private flush(batchKey: string, batch: Batch): void {
+    if (this.batches.get(batchKey) === batch) {
+      this.batches.delete(batchKey);
+    }
+
+    const items = [...batch.items.values()];
+    if (items.length === 1) {
+      this.sendAlone(items[0], batch.options);
+      return;
+    }
+
+    const merged = mergeQueries(items.map((item) => item.query as ParsedQuery));
+    logger.debug(`[QueryBatcher] Sending ${items.length} queries in one request`);
+
+    this.send(merged, batch.options)
+      .then((response) => {
+        const responses = splitResponse(response, items.length);
+        if (!responses) {
+          logger.warn(`[QueryBatcher] Batch of ${items.length} queries has errors outside any query, sending them one by one`);
+          items.forEach((item) => this.sendAlone(item, batch.options));
+          return;
+        }
+        items.forEach((item, index) => item.resolve(responses[index]));
+      })
+      .catch((error) => {
+        // A crashed runtime fails every query; resending would only hit it again
+        if (isWasmRuntimeError(error)) {
+          items.forEach((item) => item.reject(error));
+          return;
+        }
+        logger.warn(`[QueryBatcher] Batch of ${items.length} queries failed, sending them one by one:`, error);
+        items.forEach((item) => this.sendAlone(item, batch.options));
+      });
+  }
+
+  private sendAlone(item: BatchItem, options?: QueryOptions): void {
+    this.send(item.request, options).then(item.resolve, item.reject);
+  }
+}
+
+// ============================================
+// DOCUMENT MERGING
+// ============================================
+
+type TokenKind = 'name' | 'variable' | 'directive' | 'spread' | 'punctuator' | 'value';
+
+interface Token {
+  kind: TokenKind;
+  /** Source text (the name without `$` or `@` for variables and directives) */
+  text: string;
+}
+
+interface ParsedQuery {
+  /** Tokens of the variable definitions (without the parentheses) */
+  variableDefinitions: Token[];
+  /** Top-level fields: response key and the tokens after the alias */
+  fields: Array<{ key: string; tokens: Token[] }>;
+  /** Tokens of each fragment definition */
+  fragments: Token[][];
+  variables?: Record<string, unknown>;
+}
+
+const PUNCTUATORS = new Set(['!', '(', ')', ':', '=', '[', ']', '{', '|', '}', '&']);
+const NAME = /[_A-Za-z][_0-9A-Za-z]*/y;
+const NUMBER = /-?\d+(\.\d+)?([eE][+-]?\d+)?/y;
+const STRING = /"(?:[^"\\\n]|\\.)*"/y;
+const BLOCK_STRING = /"""(?:[^"\\]|\\"""|\\|"(?!""))*"""/y;
+
+/**
+ * Parse a request body into a mergeable query (null if it cannot be merged)
+ */
+function parseQuery(request: string): ParsedQuery | null {
+  const body = parseRequestBody(request);
+  if (!body || typeof body.query !== 'string') return null;
+
+  const variables = body.variables;
+  if (variables !== undefined && variables !== null && (typeof variables !== 'object' || Array.isArray(variables))) {
+    return null;
+  }
+
+  const tokens = tokenize(body.query);
+  if (!tokens) return null;
+
+  const parsed: ParsedQuery = {
+    variableDefinitions: [],
+    fields: [],
+    fragments: [],
+    variables: (variables ?? undefined) as Record<string, unknown> | undefined,
+  };
+
+  let hasOperation = false;
+  let index = 0;
+  while (index < tokens.length) {
+    const token = tokens[index];
+
+    if (token.kind === 'name' && token.text === 'fragment') {
+      const end = skipBlock(tokens, index);
+      if (end < 0) return null;
+      parsed.fragments.push(tokens.slice(index, end));
+      index = end;
+      continue;
+    }
+
+    // Only one query operation per request
+    if (hasOperation) return null;
+    hasOperation = true;
+
+    if (token.kind === 'name') {
+      if (token.text !== 'query') return null;
+      index++;
+      if (tokens[index]?.kind === 'name') index++;
+      if (tokens[index]?.text === '(' && tokens[index].kind === 'punctuator') {
+        const end = skipBalanced(tokens, index, '(', ')');
+        if (end < 0) return null;
+        parsed.variableDefinitions = tokens.slice(index + 1, end - 1);
+        index = end;
+      }
+    }
+
+    // Operation directives cannot be kept on the merged operation
+    if (tokens[index]?.text !== '{' || tokens[index].kind !== 'punctuator') return null;
+    const end = parseSelections(tokens, index, parsed);
+    if (end < 0) return null;
+    index = end;
+  }
+
+  return hasOperation && parsed.fields.length > 0 ? parsed : null;
+}
+
+/**
+ * Read the top-level fields of the operation selection set starting at `start`
+ *
+ * @returns Index after the selection set, or -1
+ */
+function parseSelections(tokens: Token[], start: number, parsed: ParsedQuery): number {
+  let index = start + 1;
+  while (index < tokens.length && !isPunctuator(tokens[index], '}')) {
+    if (tokens[index].kind !== 'name') return -1;
+
+    const key = tokens[index].text;
+    if (isPunctuator(tokens[index + 1], ':')) {
+      index += 2;
+      if (tokens[index]?.kind !== 'name') return -1;
+    }
+
+    const fieldStart = index;
+    index++;
+    if (isPunctuator(tokens[index], '(')) {
+      index = skipBalanced(tokens, index, '(', ')');
+      if (index < 0) return -1;
+    }
+    while (tokens[index]?.kind === 'directive') {
+      index++;
+      if (isPunctuator(tokens[index], '(')) {
+        index = skipBalanced(tokens, index, '(', ')');
+        if (index < 0) return -1;
+      }
+    }
+    if (isPunctuator(tokens[index], '{')) {
+      index = skipBalanced(tokens, index, '{', '}');
+      if (index < 0) return -1;
+    }
+
+    parsed.fields.push({ key, tokens: tokens.slice(fieldStart, index) });
+  }
+  return index < tokens.length ? index + 1 : -1;
+}
+
+/**
+ * Build the merged request of a batch (query `i` gets the `b{i}_` prefix)
+ */
+function mergeQueries(queries: ParsedQuery[]): string {
+  const definitions: string[] = [];
+  const selections: string[] = [];
+  const fragments: string[] = [];
+  const variables: Record<string, unknown> = {};
+
+  queries.forEach((query, index) => {
+    const prefix = batchPrefix(index);
+    if (query.variableDefinitions.length > 0) {
+      definitions.push(printTokens(query.variableDefinitions, prefix));
+    }
+    for (const field of query.fields) {
+      selections.push(`${prefix}${field.key}: ${printTokens(field.tokens, prefix)}`);
+    }
+    for (const [, name, ...rest] of query.fragments) {
+      fragments.push(`fragment ${prefix}${name.text} ${printTokens(rest, prefix)}`);
+    }
+    for (const [name, value] of Object.entries(query.variables ?? {})) {
+      variables[`${prefix}${name}`] = value;
+    }
+  });
+
+  const header = definitions.length > 0 ? `query (${definitions.join(' ')}) ` : '';
+  const document = [`${header}{ ${selections.join(' ')} }`, ...fragments].join('\n');
+  return JSON.stringify({ query: document, variables }, (_key, value: unknown) =>
+    typeof value === 'bigint' ? value.toString() : value
+  );
+}
+
+/**
+ * Split a merged response into the response of each query (null if it cannot be split)
+ */
+function splitResponse(response: unknown, count: number): string[] | null {
+  let parsed: unknown = response;
+  if (typeof response === 'string') {
+    try {
+      parsed = JSON.parse(response);
+    } catch {
+      return null;
+    }
+  }
+
+  const { data, errors } = (parsed ?? {}) as { data?: unknown; errors?: unknown };
+  if (!data || typeof data !== 'object') return null;
+
+  const parts = Array.from({ length: count }, () => ({
+    data: {} as Record<string, unknown>,
+    errors: [] as unknown[],
+  }));
+
+  for (const [key, value] of Object.entries(data as Record<string, unknown>)) {
+    const owner = ownerOf(key, count);
+    if (!owner) return null;
+    parts[owner.index].data[owner.key] = value;
+  }
+
+  for (const error of Array.isArray(errors) ? errors : []) {
+    const path: unknown = (error as { path?: unknown })?.path;
+    if (!Array.isArray(path) || typeof path[0] !== 'string') return null;
+    const owner = ownerOf(path[0], count);
+    if (!owner) return null;
+
+    // Locations point into the merged document, which the caller never saw
+    const { locations: _locations, ...rest } = error as Record<string, unknown>;
+    parts[owner.index].errors.push({ ...rest, path: [owner.key, ...path.slice(1)] });
+  }
+
+  return parts.map((part) => JSON.stringify(part.errors.length > 0 ? part : { data: part.data }));
+}
+
+function batchPrefix(index: number): string {
+  return `b${index}_`;
+}
+
+/**
+ * Query index and original response key of a merged response key
+ */
+function ownerOf(key: string, count: number): { index: number; key: string } | null {
+  const match = /^b(\d+)_/.exec(key);
+  if (!match) return null;
+
+  const index = Number(match[1]);
+  return index < count ? { index, key: key.slice(match[0].length) } : null;
+}
+
+/**
+ * Print tokens with the variables and fragment names prefixed
+ */
+function printTokens(tokens: Token[], prefix: string): string {
+  return tokens.map((token, index) => {
+    const text = printToken(tokens, index, prefix);
+    const previous = tokens[index - 1];
+    const attached = index === 0
+      || (token.kind === 'punctuator' && /[!:)\]]/.test(token.text))
+      || isPunctuator(previous, '(') || isPunctuator(previous, '[');
+    return attached ? text : ` ${text}`;
+  }).join('');
+}
+
+function printToken(tokens: Token[], index: number, prefix: string): string {
+  const token = tokens[index];
+  switch (token.kind) {
+    case 'variable':
+      return `$${prefix}${token.text}`;
+    case 'directive':
+      return `@${token.text}`;
+    case 'name':
+      // Fragment spread (`... on Type` is an inline fragment)
+      return tokens[index - 1]?.kind === 'spread' && token.text !== 'on' ? `${prefix}${token.text}` : token.text;
+    default:
+      return token.text;
+  }
+}
+
+/**
+ * Index after the fragment definition starting at `start`, or -1
+ */
+function skipBlock(tokens: Token[], start: number): number {
+  let index = start;
+  while (index < tokens.length && !isPunctuator(tokens[index], '{')) index++;
+  return index < tokens.length ? skipBalanced(tokens, index, '{', '}') : -1;
+}
+
+/**
+ * Index after the bracket matching the one at `start`, or -1
+ */
+function skipBalanced(tokens: Token[], start: number, open: string, close: string): number {
+  let depth = 0;
+  for (let index = start; index < tokens.length; index++) {
+    if (isPunctuator(tokens[index], open)) depth++;
+    else if (isPunctuator(tokens[index], close) && --depth === 0) return index + 1;
+  }
+  return -1;
+}
+
+function isPunctuator(token: Token | undefined, text: string): boolean {
+  return token?.kind === 'punctuator' && token.text === text;
+}
+
+/**
+ * Split a GraphQL document into tokens (null on unsupported syntax)
+ */
+function tokenize(source: string): Token[] | null {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  const match = (pattern: RegExp): string | null => {
+    pattern.lastIndex = index;
+    const result = pattern.exec(source);
+    return result ? result[0] : null;
+  };
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/[\s,]/.test(char)) {
+      index++;
+    } else if (char === '#') {
+      while (index < source.length && source[index] !== '\n' && source[index] !== '\r') index++;
+    } else if (source.startsWith('...', index)) {
+      tokens.push({ kind: 'spread', text: '...' });
+      index += 3;
+    } else if (char === '$' || char === '@') {
+      index++;
+      const name = match(NAME);
+      if (!name) return null;
+      tokens.push({ kind: char === '$' ? 'variable' : 'directive', text: name });
+      index += name.length;
+    } else if (PUNCTUATORS.has(char)) {
+      tokens.push({ kind: 'punctuator', text: char });
+      index++;
+    } else if (char === '"') {
+      const text = match(BLOCK_STRING) ?? match(STRING);
+      if (!text) return null;
+      tokens.push({ kind: 'value', text });
+      index += text.length;
+    } else {
+      const text = match(NAME) ?? match(NUMBER);
+      if (!text) return null;
+      tokens.push({ kind: /^[-\d]/.test(text) ? 'value' : 'name', text });
+      index += text.length;
+    }
+  }
+
+  return tokens;
+}
@@ -0,0 +1,440 @@
+/**
+ * Query Cache
+ *
+ * Opt-in cache of `public.query` results:
+ * - Keyed by appId, chainId, query text, variables and query options
+ *   (object keys are sorted, so variable order does not matter)
+ * - Fresh for `ttlMs`, then served stale for `staleWhileRevalidateMs` while
+ *   a background query refreshes it
+ * - Identical queries in flight share one request
+ * - A new block on a chain marks its results stale
+ *
+ * Raw responses are cached and parsed per caller, so callers never share
+ * result objects. Responses with GraphQL errors are not cached.
+ *
+ * Optimistic mutations add layers patching the `data` of matching results on
+ * read. A layer is dropped when its mutation settles; on commit the matching
+ * results are dropped too, so the next query reads the new chain state instead
+ * of patching a response that may already include the change.
+ */
+
+import type { QueryCacheConfig, QueryCacheStats, QueryChange, GraphQLResponse } from './types';
+import { hasGraphQLErrors, parseGraphQLResponse } from './graphql';
+import { logger } from '../../utils/logger';
+
+const DEFAULT_QUERY_CACHE: Required<QueryCacheConfig> = {
+  enabled: false,
+  ttlMs: 5_000,
+  staleWhileRevalidateMs: 30_000,
+  maxEntries: 500,
+  invalidateOnNewBlock: true,
+};
+
+/**
+ * Options for QueryCache
+ */
+export interface QueryCacheOptions extends QueryCacheConfig {
+  /** Watch the new blocks of a chain (returns the unsubscribe function) */
+  subscribeNewBlocks?: (chainId: string, onBlock: () => void) => () => void;
+
+  /** Called when optimistic updates change cached results */
+  onChange?: (change: QueryChange) => void;
+}
+
+/**
+ * Identity of a cached query
+ */
+export interface QueryCacheKey {
+  appId: string;
+  chainId: string;
+  /** Query text (document source, or the raw request string) */
+  query: string;
+  variables?: unknown;
+  operationName?: string;
+  /** Options forwarded to the application (blockHash, owner) */
+  options?: unknown;
+}
+
+/**
+ * Optimistic patch of cached results, applied on read until its mutation settles
+ */
+export interface OptimisticLayer {
+  appId: string;
+  /** Query text of the patched results */
+  query: string;
+  /** Only patch the result cached for these variables (all results of the query when undefined) */
+  variables?: unknown;
+  /** Returns the patched `data` */
+  update: (data: unknown) => unknown;
+}
+
+interface QueryCacheEntry {
+  key: QueryCacheKey;
+  response: unknown;
+  /** Time (ms since epoch) the query producing the response was sent */
+  fetchedAt: number;
+  /** Set when a new block arrived after the response was fetched */
+  stale: boolean;
+}
+
+/**
+ * TTL + stale-while-revalidate cache of application query responses
+ */
+export class QueryCache {
+  private config: Required<QueryCacheConfig>;
+  private subscribeNewBlocks?: (chainId: string, onBlock: () => void) => () => void;
+  private onChange?: (change: QueryChange) => void;
+
+  // Map iteration order is the recency order (oldest first)
+  private entries: Map<string, QueryCacheEntry> = new Map();
+  private inFlight: Map<string, { chainId: string; appId: string; query: string; promise: Promise<unknown> }> = new Map();
+  private blockSubscriptions: Map<string, () => void> = new Map();
+  // Layers of pending mutations, in mutation order
+  private layers: Map<number, OptimisticLayer[]> = new Map();
+
+  private hits = 0;
+  private staleHits = 0;
+  private misses = 0;
+  private revalidations = 0;
+  private invalidations = 0;
+
+  constructor(options?: QueryCacheOptions) {
+    const { subscribeNewBlocks, onChange, ...config } = options ?? {};
+    this.config = { ...DEFAULT_QUERY_CACHE, ...config };
+    this.config.maxEntries = Math.max(1, this.config.maxEntries);
+    this.subscribeNewBlocks = subscribeNewBlocks;
+    this.onChange = onChange;
+  }
+
+  /**
+   * Whether the cache is enabled
+   */
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Serve a query from the cache, or run it (sharing identical in-flight queries)
+   *
+   * @param key - Query identity
+   * @param load - Sends the query and resolves with the raw response
+   */
+  fetch(key: QueryCacheKey, load: () => Promise<unknown>): Promise<unknown> {
+    const id = serializeKey(key);
+    const entry = this.entries.get(id);
+
+    if (entry) {
+      const age = Date.now() - entry.fetchedAt;
+
+      if (!entry.stale && age < this.config.ttlMs) {
+        this.touch(id, entry);
+        this.hits++;
+        this.logAccess('Hit', key);
+        return Promise.resolve(this.applyLayers(entry.key, entry.response));
+      }
+
+      if (age < this.config.ttlMs + this.config.staleWhileRevalidateMs) {
+        this.touch(id, entry);
+        this.staleHits++;
+        this.logAccess('Stale hit', key);
+        this.revalidate(id, key, load);
+        return Promise.resolve(this.applyLayers(entry.key, entry.response));
+      }
+
+      this.remove(id, entry);
+    }
+
+    this.misses++;
+    this.logAccess('Miss', key);
+    return this.load(id, key, load).then((response) => this.applyLayers(key, response));
+  }
+
+  /**
+   * Drop the cached results of an application
+   *
+   * @param pattern - Only drop queries whose text contains this string or matches this RegExp
+   * @returns Number of dropped results
+   */
+  invalidate(appId: string, pattern?: string | RegExp): number {
+    const matches = (key: { appId: string; query: string }) =>
+      key.appId === appId && (pattern === undefined || matchesPattern(pattern, key.query));
+
+    // In-flight queries may read pre-invalidation state: do not cache their responses
+    this.inFlight.forEach((pending, id) => {
+      if (matches(pending)) this.inFlight.delete(id);
+    });
+
+    let dropped = 0;
+    for (const [id, entry] of [...this.entries]) {
+      if (matches(entry.key)) {
+        this.remove(id, entry);
+        dropped++;
+      }
+    }
+
+    this.invalidations += dropped;
+    logger.debug(`[QueryCache] Invalidated ${dropped} result(s) of ${appId}${pattern ? ` matching ${pattern}` : ''}`);
+    return dropped;
+  }
+
+  /**
+   * Mark every cached result of a chain stale (served stale while refetched)
+   */
+  markChainStale(chainId: string): void {
+    this.inFlight.forEach((pending, id) => {
+      if (pending.chainId === chainId) this.inFlight.delete(id);
+    });
+
+    let marked = 0;
+    this.entries.forEach((entry) => {
+      if (entry.key.chainId === chainId && !entry.stale) {
+        entry.stale = true;
+        marked++;
+      }
+    });
+
+    if (marked > 0) {
+      logger.debug(`[QueryCache] New block on ${chainId}, ${marked} result(s) marked stale`);
+    }
+  }
+
+  /**
+   * Patch matching results on read until settleOptimistic() is called for the mutation
+   */
+  addOptimistic(mutationId: number, layers: OptimisticLayer[]): void {
+    if (layers.length === 0) return;
+    this.layers.set(mutationId, layers);
+    logger.debug(`[QueryCache] Optimistic mutation ${mutationId}: ${layers.length} update(s)`);
+    this.notify(layers, 'optimistic');
+  }
+
+  /**
+   * Settle the layers of a mutation: drop them, and on commit drop the results
+   * they patched (refetched on the next query, which sees the mutation's block)
+   */
+  settleOptimistic(mutationId: number, commit: boolean): void {
+    const layers = this.layers.get(mutationId);
+    if (!layers) return;
+    this.layers.delete(mutationId);
+
+    if (commit) {
+      // In-flight queries may predate the block: do not cache their responses
+      this.inFlight.forEach((pending, id) => {
+        if (layers.some((layer) => layer.appId === pending.appId && layer.query === pending.query)) {
+          this.inFlight.delete(id);
+        }
+      });
+
+      for (const [id, entry] of [...this.entries]) {
+        if (layers.some((layer) => matchesLayer(entry.key, layer))) {
+          this.remove(id, entry);
+          this.invalidations++;
+        }
+      }
+    }
+    logger.debug(`[QueryCache] Optimistic mutation ${mutationId} ${commit ? 'committed' : 'rolled back'}`);
+    this.notify(layers, commit ? 'commit' : 'rollback');
+  }
+
+  /**
+   * Drop every cached result and stop watching new blocks
+   * (layers of pending mutations are kept until they settle)
+   */
+  clear(): void {
+    this.entries.clear();
+    this.inFlight.clear();
+    this.blockSubscriptions.forEach((unsubscribe) => unsubscribe());
+    this.blockSubscriptions.clear();
+  }
+
+  /**
+   * Cache statistics
+   */
+  getStats(): QueryCacheStats {
+    return {
+      enabled: this.config.enabled,
+      size: this.entries.size,
+      hits: this.hits,
+      staleHits: this.staleHits,
+      misses: this.misses,
+      revalidations: this.revalidations,
+      invalidations: this.invalidations,
+    };
+  }
+
+  private load(id: string, key: QueryCacheKey, load: () => Promise<unknown>): Promise<unknown> {
+    const pending = this.inFlight.get(id);
+    if (pending) {
+      return pending.promise;
+    }
+
+    const fetchedAt = Date.now();
+    const promise: Promise<unknown> = load()
+      .then((response) => {
+        // Invalidated or marked stale meanwhile: the response may predate the change
+        if (this.inFlight.get(id)?.promise === promise) {
+          this.store(id, key, response, fetchedAt);
+        }
+        return response;
+      })
+      .finally(() => {
+        if (this.inFlight.get(id)?.promise === promise) {
+          this.inFlight.delete(id);
+        }
+      });
+
+    this.inFlight.set(id, { chainId: key.chainId, appId: key.appId, query: key.query, promise });
+    return promise;
+  }
+
+  private revalidate(id: string, key: QueryCacheKey, load: () => Promise<unknown>): void {
+    if (this.inFlight.has(id)) return;
+
+    this.revalidations++;
+    this.load(id, key, load).catch((error) => {
+      // The stale result stays until it expires
+      logger.warn(`[QueryCache] Revalidation failed for ${key.appId} on ${key.chainId}:`, error);
+    });
+  }
+
+  private store(id: string, key: QueryCacheKey, response: unknown, fetchedAt: number): void {
+    if (hasGraphQLErrors(response)) {
+      logger.debug(`[QueryCache] Not caching a response with GraphQL errors from ${key.appId}`);
+      return;
+    }
+
+    this.entries.delete(id);
+    this.entries.set(id, { key, response, fetchedAt, stale: false });
+    this.watchChain(key.chainId);
+
+    while (this.entries.size > this.config.maxEntries) {
+      const [oldestId, oldest] = this.entries.entries().next().value as [string, QueryCacheEntry];
+      this.remove(oldestId, oldest);
+    }
+  }
+
+  private remove(id: string, entry: QueryCacheEntry): void {
+    this.entries.delete(id);
+
+    const chainId = entry.key.chainId;
+    const chainStillCached = [...this.entries.values()].some((other) => other.key.chainId === chainId);
+    if (!chainStillCached) {
+      this.blockSubscriptions.get(chainId)?.();
+      this.blockSubscriptions.delete(chainId);
+    }
+  }
+
+  private touch(id: string, entry: QueryCacheEntry): void {
+    this.entries.delete(id);
+    this.entries.set(id, entry);
+  }
+
+  /**
+   * Watch the new blocks of a chain while it has cached results
+   */
+  private watchChain(chainId: string): void {
+    if (!this.config.invalidateOnNewBlock || !this.subscribeNewBlocks) return;
+    if (this.blockSubscriptions.has(chainId)) return;
+
+    this.blockSubscriptions.set(chainId, this.subscribeNewBlocks(chainId, () => this.markChainStale(chainId)));
+  }
+
+  private applyLayers(key: QueryCacheKey, response: unknown): unknown {
+    if (this.layers.size === 0) return response;
+    return patchResponse(key, response, [...this.layers.values()].flat());
+  }
+
+  private notify(layers: OptimisticLayer[], reason: QueryChange['reason']): void {
+    if (!this.onChange) return;
+
+    const queriesByApp = new Map<string, Set<string>>();
+    layers.forEach((layer) => {
+      const queries = queriesByApp.get(layer.appId) ?? new Set<string>();
+      queries.add(layer.query);
+      queriesByApp.set(layer.appId, queries);
+    });
+
+    queriesByApp.forEach((queries, appId) => {
+      try {
+        this.onChange?.({ appId, queries: [...queries], reason });
+      } catch (error) {
+        logger.error('[QueryCache] Change listener error:', error);
+      }
+    });
+  }
+
+  private logAccess(kind: string, key: QueryCacheKey): void {
+    logger.debug(
+      `[QueryCache] ${kind}: ${key.appId} on ${key.chainId} ` +
+      `(hits: ${this.hits}, stale hits: ${this.staleHits}, misses: ${this.misses})`
+    );
+  }
+}
+
+/**
+ * Cache key: the key fields as JSON with sorted object keys
+ */
+function serializeKey(key: QueryCacheKey): string {
+  return stableStringify(
+    [key.appId, key.chainId, key.query, key.variables ?? null, key.operationName ?? null, key.options ?? null]
+  );
+}
+
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, item: unknown) => {
+    if (typeof item === 'bigint') return item.toString();
+    if (item && typeof item === 'object' && !Array.isArray(item)) {
+      const source = item as Record<string, unknown>;
+      return Object.keys(source).sort().reduce<Record<string, unknown>>((sorted, name) => {
+        sorted[name] = source[name];
+        return sorted;
+      }, {});
+    }
+    return item;
+  });
+}
+
+/**
+ * Apply the layers matching a result to its `data` (the response is returned as is when none match)
+ */
+function patchResponse(key: QueryCacheKey, response: unknown, layers: OptimisticLayer[]): unknown {
+  const matching = layers.filter((layer) => matchesLayer(key, layer));
+  if (matching.length === 0) return response;
+
+  let envelope: GraphQLResponse<unknown>;
+  try {
+    envelope = parseGraphQLResponse<unknown>(response);
+  } catch {
+    logger.warn(`[QueryCache] Cannot apply optimistic update to a non-GraphQL response of ${key.appId}`);
+    return response;
+  }
+  if (envelope.data === null) return response;
+
+  let data: unknown = envelope.data;
+  matching.forEach((layer) => {
+    try {
+      data = layer.update(data);
+    } catch (error) {
+      logger.warn('[QueryCache] Optimistic update failed, skipping it:', error);
+    }
+  });
+
+  return JSON.stringify({ ...envelope, data }, (_key, value: unknown) =>
+    typeof value === 'bigint' ? value.toString() : value
+  );
+}
+
+/**
+ * Whether a layer patches the result of a query
+ */
+function matchesLayer(key: QueryCacheKey, layer: OptimisticLayer): boolean {
+  return layer.appId === key.appId &&
+    layer.query === key.query &&
+    (layer.variables === undefined || stableStringify(layer.variables) === stableStringify(key.variables ?? null));
+}
+
+function matchesPattern(pattern: string | RegExp, query: string): boolean {
+  if (typeof pattern === 'string') return query.includes(pattern);
+  pattern.lastIndex = 0;
+  return pattern.test(query);
+}
@@ -0,0 +1,185 @@
+/**
+ * Runtime Crash Recovery
+ *
+ * Supervises the Linera WASM runtime: when a query, mutation or chain load
+ * fails with a WASM runtime fault ("RuntimeError: unreachable", memory
+ * faults, ...), the client is restarted through `reinit()` under a
+ * restart policy (max restarts per time window, optional page reload).
+ */
+
+import type { RecoveryPolicy, RecoveryEvent, RecoveryEventCallback } from './types';
+import { WasmRuntimeError } from './errors';
+import { logger } from '../../utils/logger';
+
+const DEFAULT_RECOVERY_POLICY: Required<RecoveryPolicy> = {
+  enabled: false,
+  maxRestarts: 3,
+  windowMs: 60_000,
+  allowPageReload: false,
+};
+
+/**
+ * Messages produced by a crashed or corrupted WASM instance
+ * (errors crossing the wasm-bindgen boundary keep only their message)
+ */
+const WASM_RUNTIME_ERROR_PATTERNS: RegExp[] = [
+  /RuntimeError: unreachable/,
+  /memory access out of bounds/i,
+  /table index is out of bounds/i,
+  /null function or function signature mismatch/i,
+  /recursive use of an object detected/i,
+  /attempted to take ownership of Rust value while it was borrowed/i,
+  /null pointer passed to rust/i,
+  // Out of memory: WASM memory growth (RangeError), instantiation and the Rust allocator
+  /WebAssembly\.Memory\S*:? (?:Maximum memory size exceeded|could not allocate memory|failed to grow memory)/i,
+  /Cannot allocate Wasm memory/i,
+  /memory allocation of \d+ bytes failed/,
+];
+
+/**
+ * Check whether an error is a WASM runtime fault (the instance is unusable afterwards)
+ *
+ * Network failures such as "validator unreachable" are not faults: only
+ * `WebAssembly.RuntimeError` (or an error named `RuntimeError`) and the
+ * messages above are.
+ */
+export function isWasmRuntimeError(error: unknown): boolean {
+  if (!error) return false;
+  if (error instanceof WasmRuntimeError) return true;
+  if (typeof WebAssembly !== 'undefined' && error instanceof WebAssembly.RuntimeError) return true;
+
+  const err = error as { name?: unknown; message?: unknown; cause?: unknown };
+  if (err.name === 'RuntimeError') {
+    return true;
+  }
+
+  const message = typeof err.message === 'string' ? err.message : String(error);
+  if (WASM_RUNTIME_ERROR_PATTERNS.some((pattern) => pattern.test(message))) {
+    return true;
+  }
+
+  // Wrapped errors keep the original fault as cause
+  return err.cause !== undefined && err.cause !== error && isWasmRuntimeError(err.cause);
+}
+
+/**
+ * Supervisor that restarts the client after WASM runtime faults
+ */
+export class RecoverySupervisor {
+  private policy: Required<RecoveryPolicy>;
+  private restart: () => Promise<void>;
+  private listeners: Set<RecoveryEventCallback> = new Set();
+  private restartTimestamps: number[] = [];
+  private inFlight: Promise<void> | null = null;
+
+  /**
+   * @param policy - Restart policy (recovery is disabled unless `enabled` is true)
+   * @param restart - Restarts the client (LineraClientManager.reinit)
+   */
+  constructor(policy: RecoveryPolicy | undefined, restart: () => Promise<void>) {
+    this.policy = { ...DEFAULT_RECOVERY_POLICY, ...policy };
+    this.restart = restart;
+  }
+
+  /**
+   * Whether supervised recovery is enabled
+   */
+  isEnabled(): boolean {
+    return this.policy.enabled;
+  }
+
+  /**
+   * Whether a recovery is in progress
+   */
+  isRecovering(): boolean {
+    return this.inFlight !== null;
+  }
+
+  /**
+   * Page reload allowed as last resort
+   */
+  allowsPageReload(): boolean {
+    return this.policy.allowPageReload;
+  }
+
+  /**
+   * Report an operation error; starts a recovery if it is a WASM runtime fault
+   *
+   * Never throws: the caller keeps handling the original error.
+   *
+   * @returns true if a recovery was started (or is already running)
+   */
+  report(error: unknown, source: string): boolean {
+    if (!this.policy.enabled || !isWasmRuntimeError(error)) {
+      return false;
+    }
+
+    if (this.inFlight) {
+      logger.debug(`[Recovery] Runtime error from ${source} while recovering, ignoring`);
+      return true;
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    logger.error(`[Recovery] WASM runtime error from ${source}:`, err);
+
+    this.inFlight = this.recover(err).finally(() => {
+      this.inFlight = null;
+    });
+    return true;
+  }
+
+  /**
+   * Subscribe to recovery events
+   */
+  onEvent(callback: RecoveryEventCallback): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  private async recover(error: Error): Promise<void> {
+    const now = Date.now();
+    this.restartTimestamps = this.restartTimestamps.filter(
+      (timestamp) => now - timestamp < this.policy.windowMs
+    );
+
+    if (this.restartTimestamps.length >= this.policy.maxRestarts) {
+      logger.error(
+        `[Recovery] Restart limit reached (${this.policy.maxRestarts} per ${this.policy.windowMs}ms)`
+      );
+      this.emit({ type: 'failed', error, reason: 'max_restarts' });
+
+      if (this.policy.allowPageReload && typeof window !== 'undefined') {
+        logger.info('[Recovery] Reloading page as last resort');
+        window.location.reload();
+      }
+      return;
+    }
+
+    this.restartTimestamps.push(now);
+    const attempt = this.restartTimestamps.length;
+
+    this.emit({ type: 'recovering', error, attempt });
+
+    try {
+      await this.restart();
+      logger.info(`[Recovery] Client recovered (attempt ${attempt})`);
+      this.emit({ type: 'recovered', attempt, durationMs: Date.now() - now });
+    } catch (restartError) {
+      const err = restartError instanceof Error ? restartError : new Error(String(restartError));
+      logger.error('[Recovery] reinit() failed:', err);
+      this.emit({ type: 'failed', error: err, reason: 'reinit_failed' });
+    }
+  }
+
+  private emit(event: RecoveryEvent): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.error('[Recovery] Event listener error:', error);
+      }
+    });
+  }
+}
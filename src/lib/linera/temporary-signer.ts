@@ -11,6 +11,15 @@
 import { ethers } from 'ethers';
 import { Signer as SignerInterface } from '@linera/client';
 import { logger } from '../../utils/logger';
+import { LineraError } from './errors';
+import {
+  resolveStorage,
+  readJson,
+  writeJson,
+  removeItem,
+  type StorageOption,
+  type StorageAdapter,
+} from '../../utils/storage';
 
 /**
  * Configuration options for TemporarySigner
@@ -29,12 +38,12 @@ export interface TemporarySignerOptions {
   constantAddress?: string;
 
   /**
-   * Persist wallet in browser storage.
+   * Persist wallet in browser storage, or in a custom storage adapter.
    * Only used if constantAddress is not provided.
    *
    * @default 'none'
    */
-  storage?: 'localStorage' | 'sessionStorage' | 'none';
+  storage?: StorageOption;
 
   /**
    * Storage key for persisted wallet
@@ -107,7 +116,7 @@ export class TemporarySigner implements SignerInterface {
   private createWalletFromConstant(address: string): ethers.Wallet {
     // Validate address format
     if (!ethers.isAddress(address)) {
-      throw new Error(`Invalid constant address: ${address}`);
+      throw new LineraError('INVALID_CONFIG', `Invalid constant address: ${address}`);
     }
 
     // Create a deterministic private key from the address
@@ -117,65 +126,50 @@ export class TemporarySigner implements SignerInterface {
   }
 
   /**
-   * Load wallet from browser storage
+   * Resolve the configured storage (null when disabled or unavailable)
+   */
+  private getStorage(): StorageAdapter | null {
+    return resolveStorage(this.options.storage);
+  }
+
+  /**
+   * Load wallet from storage
    */
   private loadFromStorage(): ethers.Wallet | null {
-    if (typeof window === 'undefined') return null;
+    const storage = this.getStorage();
+    if (!storage) return null;
 
-    const storage = this.options.storage === 'localStorage'
-      ? localStorage
-      : sessionStorage;
+    const stored = readJson<{ privateKey?: string }>(storage, this.options.storageKey);
+    if (!stored?.privateKey) return null;
 
     try {
-      const stored = storage.getItem(this.options.storageKey);
-      if (stored) {
-        const { privateKey } = JSON.parse(stored);
-        return new ethers.Wallet(privateKey);
-      }
+      return new ethers.Wallet(stored.privateKey);
     } catch (error) {
       logger.warn('[TemporarySigner] Failed to load from storage:', error);
+      return null;
     }
-
-    return null;
   }
 
   /**
-   * Save wallet to browser storage
+   * Save wallet to storage
    */
   private saveToStorage(wallet: ethers.HDNodeWallet | ethers.Wallet): void {
-    if (typeof window === 'undefined') return;
-
-    const storage = this.options.storage === 'localStorage'
-      ? localStorage
-      : sessionStorage;
+    const storage = this.getStorage();
+    if (!storage) return;
 
-    try {
-      storage.setItem(
-        this.options.storageKey,
-        JSON.stringify({ privateKey: wallet.privateKey })
-      );
-      logger.debug('[TemporarySigner] Wallet saved to', this.options.storage);
-    } catch (error) {
-      logger.warn('[TemporarySigner] Failed to save to storage:', error);
-    }
+    writeJson(storage, this.options.storageKey, { privateKey: wallet.privateKey });
+    logger.debug('[TemporarySigner] Wallet saved to storage');
   }
 
   /**
    * Clear wallet from storage
    */
   clearStorage(): void {
-    if (typeof window === 'undefined') return;
+    const storage = this.getStorage();
+    if (!storage) return;
 
-    const storage = this.options.storage === 'localStorage'
-      ? localStorage
-      : sessionStorage;
-
-    try {
-      storage.removeItem(this.options.storageKey);
-      logger.debug('[TemporarySigner] Wallet cleared from storage');
-    } catch (error) {
-      logger.warn('[TemporarySigner] Failed to clear storage:', error);
-    }
+    removeItem(storage, this.options.storageKey);
+    logger.debug('[TemporarySigner] Wallet cleared from storage');
   }
 
   /**
@@ -184,7 +178,8 @@ export class TemporarySigner implements SignerInterface {
   async sign(owner: string, value: Uint8Array): Promise<string> {
     // Verify the owner matches our temporary address
     if (owner.toLowerCase() !== this.wallet.address.toLowerCase()) {
-      throw new Error(
+      throw new LineraError(
+        'SIGNER_ERROR',
         `Owner mismatch: expected ${this.wallet.address}, got ${owner}`
       );
     }
@@ -197,8 +192,10 @@ export class TemporarySigner implements SignerInterface {
       const signature = await this.wallet.signMessage(ethers.getBytes(msgHex));
       return signature;
     } catch (err) {
-      throw new Error(
-        `Temporary signer failed: ${err instanceof Error ? err.message : String(err)}`
+      throw new LineraError(
+        'SIGNER_ERROR',
+        `Temporary signer failed: ${err instanceof Error ? err.message : String(err)}`,
+        { cause: err }
       );
     }
   }
@@ -0,0 +1,181 @@
+/**
+ * Native Tokens
+ *
+ * Exact decimal amounts for the native token (18 decimals, stored as
+ * attos in a bigint) and account helpers for balances and transfers.
+ */
+
+/**
+ * Number of decimals of the native token
+ */
+export const TOKEN_DECIMALS = 18;
+
+/**
+ * Account owner designating the chain balance itself (no owner account)
+ */
+export const CHAIN_ACCOUNT_OWNER = '0x00';
+
+const ATTOS_PER_TOKEN = BigInt(10) ** BigInt(TOKEN_DECIMALS);
+const DECIMAL_PATTERN = /^(\d*)(?:\.(\d*))?$/;
+
+/**
+ * Values accepted wherever an amount is expected
+ * (numbers are read through their shortest decimal representation, e.g. 0.1 is exactly 0.1)
+ */
+export type AmountInput = Amount | string | number;
+
+/**
+ * Exact native token amount (never negative)
+ *
+ * @example
+ * ```typescript
+ * const amount = Amount.from('1.5');
+ * amount.add('0.25').toString(); // '1.75'
+ * amount.attos;                  // 1500000000000000000n
+ * ```
+ */
+export class Amount {
+  static readonly ZERO = new Amount(BigInt(0));
+
+  /** Amount in attos (10^-18 tokens) */
+  readonly attos: bigint;
+
+  private constructor(attos: bigint) {
+    if (attos < BigInt(0)) {
+      throw new RangeError('Amount cannot be negative');
+    }
+    this.attos = attos;
+  }
+
+  /**
+   * Create an amount from a decimal string, a number or another amount
+   *
+   * @throws RangeError on negative, non-finite or malformed values, or more than 18 decimals
+   */
+  static from(value: AmountInput): Amount {
+    if (value instanceof Amount) {
+      return value;
+    }
+    if (typeof value === 'number') {
+      if (!Number.isFinite(value)) {
+        throw new RangeError(`Invalid amount: ${value}`);
+      }
+      return Amount.parse(expandExponent(String(value)));
+    }
+    return Amount.parse(value);
+  }
+
+  /**
+   * Create an amount from attos
+   */
+  static fromAttos(attos: bigint | string): Amount {
+    return new Amount(BigInt(attos));
+  }
+
+  /**
+   * Parse a decimal string ("1.5", "10.", "0.000000000000000001")
+   */
+  static parse(value: string): Amount {
+    const trimmed = value.trim();
+    const match = DECIMAL_PATTERN.exec(trimmed);
+    if (!match || trimmed === '' || trimmed === '.') {
+      throw new RangeError(`Invalid amount: "${value}"`);
+    }
+
+    const [, whole, fraction = ''] = match;
+    if (fraction.length > TOKEN_DECIMALS) {
+      throw new RangeError(`Invalid amount: "${value}" has more than ${TOKEN_DECIMALS} decimals`);
+    }
+
+    const attos = BigInt(whole || '0') * ATTOS_PER_TOKEN +
+      BigInt(fraction.padEnd(TOKEN_DECIMALS, '0') || '0');
+    return new Amount(attos);
+  }
+
+  add(other: AmountInput): Amount {
+    return new Amount(this.attos + Amount.from(other).attos);
+  }
+
+  /**
+   * @throws RangeError if the result would be negative
+   */
+  sub(other: AmountInput): Amount {
+    return new Amount(this.attos - Amount.from(other).attos);
+  }
+
+  /**
+   * Compare with another amount (-1, 0 or 1)
+   */
+  compare(other: AmountInput): -1 | 0 | 1 {
+    const otherAttos = Amount.from(other).attos;
+    if (this.attos === otherAttos) return 0;
+    return this.attos < otherAttos ? -1 : 1;
+  }
+
+  equals(other: AmountInput): boolean {
+    return this.compare(other) === 0;
+  }
+
+  isZero(): boolean {
+    return this.attos === BigInt(0);
+  }
+
+  /**
+   * Nearest JS number (may lose precision)
+   */
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  /**
+   * JS number holding exactly this amount
+   *
+   * @throws RangeError if the amount has more significant digits than a number can hold
+   */
+  toExactNumber(): number {
+    const value = this.toNumber();
+    if (!Amount.from(value).equals(this)) {
+      throw new RangeError(`Amount ${this.toString()} cannot be represented exactly as a number`);
+    }
+    return value;
+  }
+
+  /**
+   * Decimal representation without trailing zeros ("1.5", "0", "42")
+   */
+  toString(): string {
+    const whole = this.attos / ATTOS_PER_TOKEN;
+    const fraction = (this.attos % ATTOS_PER_TOKEN)
+      .toString()
+      .padStart(TOKEN_DECIMALS, '0')
+      .replace(/0+$/, '');
+    return fraction ? `${whole}.${fraction}` : whole.toString();
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+}
+
+/**
+ * Expand a number string in exponent notation ("1e-7" -> "0.0000001")
+ */
+function expandExponent(value: string): string {
+  const match = /^(-?)(\d+)(?:\.(\d+))?e([+-]\d+)$/i.exec(value);
+  if (!match) {
+    return value;
+  }
+
+  const [, sign, whole, fraction = '', exponentText] = match;
+  const digits = whole + fraction;
+  const exponent = Number(exponentText);
+  const point = whole.length + exponent;
+
+  if (point <= 0) {
+    return `${sign}0.${'0'.repeat(-point)}${digits}`;
+  }
+  if (point >= digits.length) {
+    return `${sign}${digits}${'0'.repeat(point - digits.length)}`;
+  }
+  return `${sign}${digits.slice(0, point)}.${digits.slice(point)}`;
+}
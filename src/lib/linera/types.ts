@@ -5,6 +5,8 @@
  */
 
 import type { Client, Wallet, Signer, Application, Chain, Faucet, QueryOptions, initialize, Options as ClientOptions} from '@linera/client';
+import type { StorageOption } from '../../utils/storage';
+import type { Amount, AmountInput } from './tokens';
 
 /**
  * Client operational modes
@@ -13,11 +15,26 @@ export enum ClientMode {
   /** Not yet initialized */
   UNINITIALIZED = 'uninitialized',
 
+  /** Loading WASM and claiming the public chain */
+  INITIALIZING = 'initializing',
+
   /** Read-only mode with temporary wallet (guest) */
   READ_ONLY = 'read_only',
 
+  /** Connecting (or switching) the MetaMask wallet; public chain still usable */
+  CONNECTING_WALLET = 'connecting_wallet',
+
   /** Full mode with MetaMask wallet (authenticated) */
   FULL = 'full',
+
+  /** Releasing the wallet chain; public chain still usable */
+  DISCONNECTING = 'disconnecting',
+
+  /** Restarting after a WASM runtime fault (reinit) */
+  RECOVERING = 'recovering',
+
+  /** Initialization or recovery failed; see ClientState.lastError */
+  ERROR = 'error',
 }
 
 /**
@@ -27,6 +44,9 @@ export interface ClientState {
   /** Current operational mode */
   mode: ClientMode;
 
+  /** Mode before the last transition */
+  previousMode?: ClientMode;
+
   /** Whether client is initialized */
   isInitialized: boolean;
 
@@ -48,72 +68,842 @@ export interface ClientState {
    */
   publicChainId?: string;
 
-  /**
-   * Wallet chain ID - only when wallet is connected
-   * Used for user mutations
-   */
-  walletChainId?: string;
+  /**
+   * Wallet chain ID - only when wallet is connected
+   * Used for user mutations
+   */
+  walletChainId?: string;
+
+  /** Faucet URL being used (active endpoint when several are configured) */
+  faucetUrl?: string;
+
+  /** Whether the WASM runtime is loaded and initialized */
+  runtimeLoaded?: boolean;
+
+  /**
+   * Public chain claim status in lazy mode (undefined when not lazy)
+   * - 'pending': not claimed yet, claimed on first getApplication/getChain
+   * - 'claiming': claim in progress
+   * - 'claimed': public chain ready
+   * - 'failed': the claim (or a later recovery) failed, retried on next use
+   */
+  claimStatus?: LazyClaimStatus;
+
+  /**
+   * Set while the faucet circuit breaker is open
+   * Lets the UI show a "faucet unavailable, retrying at ..." message
+   */
+  faucetUnavailable?: FaucetUnavailable;
+
+  /**
+   * Last error of a failed transition (initialization, wallet connection, recovery)
+   * Kept until a later transition reaches READ_ONLY or FULL without error.
+   */
+  lastError?: Error;
+
+  /**
+   * Any error that occurred
+   * @deprecated Use `lastError`
+   */
+  error?: Error;
+}
+
+/**
+ * Creates a Linera wallet for the network (called once per client)
+ *
+ * Receives the loaded Linera module. The library does not read serialized
+ * wallets or genesis configs: @linera/client only creates wallets through
+ * `Faucet.createWallet()`, so the caller builds the wallet (e.g. with a
+ * binding build that can load one).
+ */
+export type WalletFactory = (lineraModule: LineraModule) => Wallet | Promise<Wallet>;
+
+/**
+ * Options for claimChain()
+ */
+export interface ClaimChainOptions {
+  /**
+   * Owner of the new chain (defaults to the connected wallet address)
+   * Must be the connected wallet: only a local signer can sign the chain's blocks.
+   */
+  owner?: string;
+}
+
+/**
+ * Chain owned by one of the manager's signers
+ */
+export interface OwnedChain {
+  /** Chain ID */
+  chainId: string;
+
+  /** Owner signing the chain's blocks */
+  owner: string;
+
+  /**
+   * - `public`: public chain (temporary signer)
+   * - `wallet`: wallet chain claimed on connect (wallet signer)
+   * - `claimed`: additional chain claimed with claimChain() (wallet signer)
+   * - `external`: chain created elsewhere whose owners include a local signer
+   */
+  kind: 'public' | 'wallet' | 'claimed' | 'external';
+}
+
+/**
+ * Known owners of a chain and the local signer used for its mutations
+ */
+export interface ChainOwnership {
+  /** Owners of the chain (empty if they could not be determined) */
+  owners: string[];
+
+  /** Owner whose local signer signs mutations (null when no local signer owns the chain) */
+  signer: string | null;
+}
+
+/**
+ * Native token account: a chain balance, or an owner's account on a chain
+ */
+export interface TokenAccount {
+  /** Chain holding the account */
+  chainId: string;
+
+  /** Owner of the account (omit for the chain balance) */
+  owner?: string;
+}
+
+/**
+ * Native token transfer
+ */
+export interface TransferRequest extends CancellationOptions {
+  /**
+   * Source account (defaults to the wallet chain balance when a wallet is connected,
+   * else the public chain balance). A local signer must own the source chain.
+   */
+  from?: TokenAccount;
+
+  /** Recipient account */
+  to: TokenAccount;
+
+  /** Amount in tokens (exact decimal, e.g. '1.5') */
+  amount: AmountInput;
+}
+
+/**
+ * Kind of a chain notification (the variant of its `reason`)
+ */
+export type ChainNotificationKind =
+  | 'NewBlock'
+  | 'NewIncomingBundle'
+  | 'NewRound'
+  | 'NewEvents'
+  | 'BlockExecuted';
+
+/**
+ * Notification delivered by a chain
+ *
+ * @example
+ * ```typescript
+ * { chain_id: 'e476...', reason: { NewBlock: { height: 12, hash: '3f0a...' } } }
+ * ```
+ */
+export interface ChainNotification {
+  /** Chain that emitted the notification */
+  chain_id: string;
+
+  /** Single-key object keyed by the notification kind */
+  reason: Partial<Record<ChainNotificationKind, unknown>> & Record<string, unknown>;
+}
+
+/**
+ * Selects the notifications delivered to a subscriber:
+ * a kind, a list of kinds, a predicate, or null for every notification
+ */
+export type NotificationFilter =
+  | ChainNotificationKind
+  | readonly ChainNotificationKind[]
+  | ((notification: ChainNotification) => boolean)
+  | null;
+
+/**
+ * Receives the notifications of a subscription
+ */
+export type NotificationHandler = (notification: ChainNotification) => void;
+
+/**
+ * Options for subscribe()
+ */
+export interface SubscribeOptions {
+  /**
+   * Called when the chain cannot be loaded or watched
+   * (binding is retried with exponential backoff until it succeeds or the subscription ends)
+   */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Existing wallet and chains (no faucet)
+ */
+export interface ExistingChainsConfig {
+  /** Builds the wallet holding the network's genesis config (caller-built; see WalletFactory) */
+  createWallet: WalletFactory;
+
+  /** Chain used in READ_ONLY mode (queries, subscriptions, system mutations) */
+  publicChainId: string;
+
+  /**
+   * Signer owning the public chain
+   * @default TemporarySigner configured by `readOnlyWallet`
+   */
+  publicSigner?: Signer & { address(): Promise<string> };
+
+  /**
+   * Chains owned by wallet signers (owner address → chain ID), used by connectWallet()
+   *
+   * @example
+   * walletChains: { '0x1234...abcd': 'e476187f6ddfeb9d...' }
+   */
+  walletChains?: Record<string, string>;
+}
+
+/**
+ * Public chain claim status in lazy mode
+ */
+export type LazyClaimStatus = 'pending' | 'claiming' | 'claimed' | 'failed';
+
+/**
+ * Lazy initialization configuration
+ */
+export interface LazyInitConfig {
+  /**
+   * When to load the WASM runtime
+   * - 'immediate': as soon as the provider mounts
+   * - 'idle': when the browser is idle (requestIdleCallback, with a timeout fallback)
+   * - 'none': together with the first claim
+   * @default 'immediate'
+   */
+  preload?: 'immediate' | 'idle' | 'none';
+
+  /**
+   * Longest wait for an idle period before preloading anyway
+   * @default 2000
+   */
+  idleTimeoutMs?: number;
+}
+
+/**
+ * Faucet endpoint with an optional selection weight
+ */
+export interface FaucetEndpoint {
+  /** Faucet URL */
+  url: string;
+
+  /**
+   * Relative weight when picking among healthy endpoints.
+   * If any endpoint has a weight, selection is weighted instead of ordered.
+   * A weight of 0 disables the endpoint.
+   */
+  weight?: number;
+}
+
+/**
+ * Faucet URL configuration: one URL, an ordered list, or weighted endpoints
+ */
+export type FaucetUrlConfig = string | Array<string | FaucetEndpoint>;
+
+/**
+ * Faucet health check configuration
+ */
+export interface FaucetHealthCheckConfig {
+  /**
+   * Probe endpoints before using them
+   * @default true
+   */
+  enabled?: boolean;
+
+  /**
+   * Timeout of the default probe
+   * @default 5000
+   */
+  timeoutMs?: number;
+
+  /**
+   * Time an endpoint stays excluded after a failed probe or call
+   * @default 30000
+   */
+  recheckIntervalMs?: number;
+
+  /**
+   * Custom probe (default: POST `{ __typename }` GraphQL query, healthy on HTTP 2xx)
+   */
+  probe?: (url: string) => Promise<boolean>;
+}
+
+/**
+ * Faucet unavailability state (circuit breaker open)
+ */
+export interface FaucetUnavailable {
+  /** Consecutive transient failures observed */
+  consecutiveFailures: number;
+
+  /** Time (ms since epoch) after which the faucet will be probed again */
+  retryAt: number;
+
+  /** Message of the last faucet error */
+  lastError: string;
+}
+
+/**
+ * Retry policy for faucet calls (createWallet/claimChain)
+ */
+export interface FaucetRetryPolicy {
+  /**
+   * Maximum attempts per call, including the first one
+   * @default 4
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry, doubled on each further retry
+   * @default 500
+   */
+  baseDelayMs?: number;
+
+  /**
+   * Upper bound for the retry delay
+   * @default 10000
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Randomize delays to avoid synchronized retries across clients
+   * @default true
+   */
+  jitter?: boolean;
+
+  /**
+   * Error message patterns considered transient; other errors fail immediately.
+   * Strings match case-insensitively as substrings.
+   * @default rate limit, 429/502/503/504, timeout, network and connection errors
+   */
+  retryableErrors?: Array<string | RegExp>;
+}
+
+/**
+ * Circuit breaker configuration for faucet calls
+ */
+export interface FaucetCircuitBreakerConfig {
+  /**
+   * Consecutive transient failures before the circuit opens
+   * @default 5
+   */
+  failureThreshold?: number;
+
+  /**
+   * Time the circuit stays open before the faucet is probed again
+   * @default 30000
+   */
+  cooldownMs?: number;
+}
+
+/**
+ * Read-only wallet configuration
+ */
+export interface ReadOnlyWalletConfig {
+  /**
+   * Use a constant wallet address for all read-only users.
+   * This is the most efficient option for read-only access.
+   *
+   * Recommended values:
+   * - Zero address: "0x0000000000000000000000000000000000000000"
+   * - Any valid Ethereum address
+   *
+   * Benefits:
+   * - Zero overhead (no wallet creation)
+   * - Same chain for all users (faucet can cache)
+   * - Predictable and efficient
+   *
+   * Takes precedence over storage option.
+   */
+  constantAddress?: string;
+
+  /**
+   * Persist temporary wallet in browser storage.
+   * Only used if constantAddress is not provided.
+   *
+   * Options:
+   * - 'localStorage': Persists across browser sessions
+   * - 'sessionStorage': Persists only during browser session
+   * - 'none': Ephemeral, new wallet on each reload
+   * - Custom adapter (getItem/setItem/removeItem)
+   *
+   * @default 'none'
+   */
+  storage?: StorageOption;
+
+  /**
+   * Custom storage key for persisted wallet
+   * @default 'linera_readonly_wallet'
+   */
+  storageKey?: string;
+
+  /**
+   * Persist the claimed public chain next to the signer key and reuse it
+   * on the next initialization instead of claiming a new one.
+   * Requires a `storage` other than 'none'.
+   *
+   * The chain is stored under `${storageKey}_chain`. If the stored chain
+   * cannot be restored (different faucet, owner mismatch, sync failure),
+   * a fresh chain is claimed and stored.
+   *
+   * @default false
+   */
+  persistChain?: boolean;
+}
+
+/**
+ * Public chain record persisted when `ReadOnlyWalletConfig.persistChain` is enabled
+ */
+export interface PersistedPublicChain {
+  /** Claimed public chain ID */
+  chainId: string;
+
+  /** Owner the chain was claimed for (temporary signer address) */
+  owner: string;
+
+  /** Faucet the chain was claimed from */
+  faucetUrl: string;
+}
+
+/**
+ * Wallet chain registry configuration
+ * Controls where the owner → wallet chain mapping is persisted
+ */
+export interface WalletChainRegistryConfig {
+  /**
+   * Storage for the registry: 'localStorage', 'sessionStorage', a custom
+   * adapter (any object with getItem/setItem/removeItem), or 'none' to keep
+   * the registry in memory only (reused across account switches, lost on reload).
+   *
+   * @default 'localStorage'
+   */
+  storage?: StorageOption;
+
+  /**
+   * Storage key for the registry
+   * @default 'linera_wallet_chains'
+   */
+  storageKey?: string;
+}
+
+/**
+ * Chain cache configuration
+ */
+export interface ChainCacheConfig {
+  /**
+   * Maximum number of cached chains (pinned chains may exceed it)
+   * @default 10
+   */
+  capacity?: number;
+
+  /**
+   * Time after which an unpinned chain is dropped (0 disables expiry)
+   * @default 0
+   */
+  ttlMs?: number;
+}
+
+/**
+ * Chain cache statistics
+ */
+export interface ChainCacheStats {
+  /** Number of cached chains */
+  size: number;
+
+  /** Configured capacity */
+  capacity: number;
+
+  /** Configured TTL (0 = no expiry) */
+  ttlMs: number;
+
+  /** Pinned chain IDs */
+  pinned: string[];
+
+  /** Cache hits since creation */
+  hits: number;
+
+  /** Cache misses since creation (including expired entries) */
+  misses: number;
+
+  /** Chains evicted for capacity or expiry */
+  evictions: number;
+}
+
+/**
+ * Query cache configuration (caches `public.query` results)
+ */
+export interface QueryCacheConfig {
+  /**
+   * Enable the query cache
+   * @default false
+   */
+  enabled?: boolean;
+
+  /**
+   * Time during which a cached result is fresh (served without querying)
+   * @default 5000
+   */
+  ttlMs?: number;
+
+  /**
+   * Time after `ttlMs` during which a stale result is still served while it is
+   * refetched in the background (0 disables stale-while-revalidate)
+   * @default 30000
+   */
+  staleWhileRevalidateMs?: number;
+
+  /**
+   * Maximum number of cached results (least recently used first out)
+   * @default 500
+   */
+  maxEntries?: number;
+
+  /**
+   * Mark the cached results of a chain stale when a new block notification arrives for it
+   * @default true
+   */
+  invalidateOnNewBlock?: boolean;
+}
+
+/**
+ * Query cache statistics
+ */
+export interface QueryCacheStats {
+  /** Whether the cache is enabled */
+  enabled: boolean;
+
+  /** Number of cached results */
+  size: number;
+
+  /** Fresh results served from the cache */
+  hits: number;
+
+  /** Stale results served while refetching */
+  staleHits: number;
+
+  /** Queries sent because nothing usable was cached (shared in-flight queries included) */
+  misses: number;
+
+  /** Background refetches of stale results */
+  revalidations: number;
+
+  /** Results dropped by invalidate() */
+  invalidations: number;
+}
+
+/**
+ * Query batching configuration (merges concurrent `public.query` calls)
+ */
+export interface QueryBatchingConfig {
+  /**
+   * Enable query batching
+   * @default false
+   */
+  enabled?: boolean;
+
+  /**
+   * Time to collect queries before sending a batch (0 batches the queries of the same tick)
+   * @default 0
+   */
+  windowMs?: number;
+
+  /**
+   * Maximum number of queries per batch (a full batch is sent right away)
+   * @default 10
+   */
+  maxBatchSize?: number;
+}
+
+/**
+ * Default timeouts (0 disables a timeout)
+ */
+export interface OperationTimeoutConfig {
+  /**
+   * Timeout for application queries in ms
+   * @default 30000
+   */
+  queryMs?: number;
+
+  /**
+   * Timeout for mutations in ms, including the wallet signature prompt
+   * @default 120000
+   */
+  mutationMs?: number;
+
+  /**
+   * Timeout for initializeReadOnly() in ms (runtime load, faucet claim)
+   * @default 120000
+   */
+  initializeMs?: number;
+}
+
+/**
+ * Cancellation options for a single call
+ */
+export interface CancellationOptions {
+  /** Rejects the call with an AbortError when aborted */
+  signal?: AbortSignal;
+
+  /** Rejects the call with a TimeoutError after this many ms (overrides the configured default, 0 disables) */
+  timeoutMs?: number;
+}
+
+/**
+ * Options for application queries and mutations
+ */
+export interface OperationOptions extends QueryOptions, CancellationOptions {
+  /** Set to false to bypass the query cache (`public.query` only, when `queryCache` is enabled) */
+  cache?: boolean;
+
+  /** Set to false to send the query on its own (`public.query` only, when `queryBatching` is enabled) */
+  batch?: boolean;
+}
+
+/**
+ * Optimistic patch of cached `public.query` results (requires `queryCache`)
+ */
+export interface OptimisticQueryUpdate<TData = unknown, TVariables = unknown> {
+  /**
+   * Query whose cached results are patched (same text or document as used by the query;
+   * use `optimisticUpdate()` to type `variables` and `update` from a typed document)
+   */
+  query: string | TypedDocument<TData, never>;
+
+  /** Only patch the result cached for these variables (all results of the query when omitted) */
+  variables?: TVariables;
+
+  /** Returns the patched `data` (must not mutate its argument) */
+  update(data: TData): TData;
+}
+
+/**
+ * Optimistic behavior of a wallet mutation
+ */
+export interface OptimisticMutation {
+  /**
+   * Patches applied to cached query results while the mutation is pending
+   * (rolled back on failure; on success the patched results are refetched)
+   */
+  updates?: OptimisticQueryUpdate[];
+
+  /** Describes the mutation in the pending-mutations registry (e.g. the row to render as pending) */
+  data?: unknown;
+}
+
+/**
+ * Options for wallet mutations
+ */
+export interface MutationOptions extends OperationOptions {
+  /** Patch cached query results right away, before the signature and block execution */
+  optimistic?: OptimisticMutation;
+}
+
+/**
+ * Cached query results of an application changed without a new query
+ * (re-run the queries to render the change)
+ */
+export interface QueryChange {
+  /** Application ID */
+  appId: string;
+
+  /** Query texts of the changed results */
+  queries: string[];
+
+  /**
+   * - `optimistic`: optimistic updates of a pending mutation were applied
+   * - `rollback`: they were removed after the mutation failed
+   * - `commit`: the mutation succeeded; the patched results were dropped and refetch on the next query
+   */
+  reason: 'optimistic' | 'rollback' | 'commit';
+}
+
+/**
+ * Wallet mutation that has not settled yet
+ */
+export interface PendingMutation {
+  /** Unique mutation ID (per manager) */
+  id: number;
+
+  /** Application ID */
+  appId: string;
+
+  /** Wallet chain the mutation runs on */
+  chainId?: string;
+
+  /** Time (ms since epoch) the mutation started */
+  startedAt: number;
+
+  /** `optimistic.data` of the mutation */
+  data?: unknown;
+}
+
+/**
+ * Carries the result and variable types of a GraphQL document
+ * (same shape as `DocumentTypeDecoration` from @graphql-typed-document-node/core)
+ */
+export interface DocumentTypeDecoration<TResult, TVariables> {
+  /** Type-level only, never set at runtime */
+  __apiType?: (variables: TVariables) => TResult;
+}
+
+/**
+ * Parsed GraphQL document (structurally compatible with graphql-js `DocumentNode`)
+ */
+export interface DocumentNodeLike {
+  readonly kind: string;
+  readonly definitions: ReadonlyArray<unknown>;
+  readonly loc?: { readonly source: { readonly body: string } };
+}
+
+/**
+ * Typed GraphQL document: `gql` tag output or a `TypedDocumentNode` generated by GraphQL Code Generator
+ */
+export interface TypedDocumentNode<TResult = Record<string, unknown>, TVariables = Record<string, unknown>>
+  extends DocumentNodeLike, DocumentTypeDecoration<TResult, TVariables> {}
+
+/**
+ * Typed GraphQL document string (GraphQL Code Generator `documentMode: 'string'`)
+ */
+export type TypedDocumentString<TResult, TVariables> = String & DocumentTypeDecoration<TResult, TVariables>;
+
+/**
+ * Typed GraphQL document accepted by app queries and mutations
+ */
+export type TypedDocument<TResult, TVariables> =
+  | TypedDocumentNode<TResult, TVariables>
+  | TypedDocumentString<TResult, TVariables>;
+
+/**
+ * Result type of a typed document
+ */
+export type ResultOf<TDocument> = TDocument extends DocumentTypeDecoration<infer TResult, unknown> ? TResult : never;
+
+/**
+ * Variables type of a typed document
+ */
+export type VariablesOf<TDocument> = TDocument extends DocumentTypeDecoration<unknown, infer TVariables> ? TVariables : never;
+
+/**
+ * Options of a typed document operation
+ */
+export interface DocumentOperationOptions<TVariables> extends OperationOptions {
+  /** Operation variables (checked against the document) */
+  variables?: TVariables;
+}
+
+/**
+ * Remaining arguments of a typed document operation:
+ * options are required when the document has required variables.
+ * Variables are inferred from the document only, so extra or mistyped variables are rejected.
+ */
+export type DocumentOperationArgs<TVariables, TOptions extends OperationOptions = OperationOptions> = {} extends TVariables
+  ? [options?: TOptions & DocumentOperationOptions<DocumentVariables<TVariables>>]
+  : [options: TOptions & DocumentOperationOptions<DocumentVariables<TVariables>> & { variables: DocumentVariables<TVariables> }];
+
+// Blocks inference from the options argument (like NoInfer, which needs TypeScript 5.4)
+type DocumentVariables<TVariables> = [TVariables][TVariables extends unknown ? 0 : never];
+
+/**
+ * GraphQL request object, serialized to the application request body
+ */
+export interface GraphQLRequest<TData = unknown, TVariables = Record<string, unknown>> {
+  /** GraphQL source or typed document */
+  query: string | TypedDocument<TData, TVariables>;
+
+  /** Operation variables (checked against a typed document) */
+  variables?: DocumentVariables<TVariables>;
+
+  /** Operation to run when the document defines several */
+  operationName?: string;
+}
+
+/**
+ * GraphQL error reported in a response
+ */
+export interface GraphQLErrorEntry {
+  message: string;
+  locations?: Array<{ line: number; column: number }>;
+  path?: Array<string | number>;
+  extensions?: Record<string, unknown>;
+}
+
+/**
+ * Parsed GraphQL response: `data` (null when absent) and `errors` (empty when none)
+ */
+export interface GraphQLResponse<TData = unknown> {
+  data: TData | null;
+  errors: GraphQLErrorEntry[];
+}
+
+/**
+ * Client manager cache statistics
+ */
+export interface CacheStats {
+  /** Chain cache */
+  chains: ChainCacheStats;
 
-  /** Faucet URL being used */
-  faucetUrl?: string;
+  /** Query result cache */
+  queries: QueryCacheStats;
 
-  /** Any error that occurred */
-  error?: Error;
+  /** Number of cached application clients */
+  applications: number;
 }
 
 /**
- * Read-only wallet configuration
+ * Configuration for client initialization
  */
-export interface ReadOnlyWalletConfig {
+export interface ClientConfig {
   /**
-   * Use a constant wallet address for all read-only users.
-   * This is the most efficient option for read-only access.
+   * Linera faucet endpoint URL(s)
    *
-   * Recommended values:
-   * - Zero address: "0x0000000000000000000000000000000000000000"
-   * - Any valid Ethereum address
+   * - Single URL
+   * - Ordered list: the first healthy endpoint is used, the others are backups
+   * - Weighted set (`{ url, weight }`): healthy endpoints are picked by weight
    *
-   * Benefits:
-   * - Zero overhead (no wallet creation)
-   * - Same chain for all users (faucet can cache)
-   * - Predictable and efficient
+   * The active endpoint is reported in `ClientState.faucetUrl`.
    *
-   * Takes precedence over storage option.
+   * @example
+   * // Private faucet with the public testnet faucet as backup
+   * faucetUrl={['https://faucet.internal.example.com', 'https://faucet.testnet-conway.linera.net']}
    */
-  constantAddress?: string;
+  faucetUrl?: FaucetUrlConfig;
 
   /**
-   * Persist temporary wallet in browser storage.
-   * Only used if constantAddress is not provided.
-   *
-   * Options:
-   * - 'localStorage': Persists across browser sessions
-   * - 'sessionStorage': Persists only during browser session
-   * - 'none': Ephemeral, new wallet on each reload
-   *
-   * @default 'none'
+   * Run against existing chains instead of claiming them from a faucet
+   * (private devnets, users who already own chains).
+   * Either `faucetUrl` or `existingChains` is required; with both, chains
+   * missing from `existingChains.walletChains` are still claimed from the faucet.
    */
-  storage?: 'localStorage' | 'sessionStorage' | 'none';
+  existingChains?: ExistingChainsConfig;
 
   /**
-   * Custom storage key for persisted wallet
-   * @default 'linera_readonly_wallet'
+   * Health probing of faucet endpoints (used when choosing an endpoint)
    */
-  storageKey?: string;
-}
-
-/**
- * Configuration for client initialization
- */
-export interface ClientConfig {
-  /** Linera faucet endpoint URL */
-  faucetUrl: string;
+  faucetHealthCheck?: FaucetHealthCheckConfig;
 
   /** Network environment */
   network?: 'mainnet' | 'testnet' | 'local';
 
   /** Whether to automatically connect MetaMask on init */
   autoConnect?: boolean;
+
+  /**
+   * Lazy mode: only load the WASM runtime on mount; the public wallet and
+   * chain are claimed on the first getApplication, getChain or query.
+   * Visitors who never touch on-chain data never hit the faucet.
+   *
+   * @example
+   * lazy={{ preload: 'idle' }}
+   */
+  lazy?: boolean | LazyInitConfig;
   
   /**
    * Read-only wallet configuration
@@ -139,6 +929,111 @@ export interface ClientConfig {
    */
   readOnlyWallet?: ReadOnlyWalletConfig;
 
+  /**
+   * Retry policy for faucet calls
+   *
+   * @example
+   * faucetRetry={{ maxAttempts: 6, baseDelayMs: 1000 }}
+   */
+  faucetRetry?: FaucetRetryPolicy;
+
+  /**
+   * Circuit breaker for faucet calls, or `false` to disable it
+   */
+  faucetCircuitBreaker?: FaucetCircuitBreakerConfig | false;
+
+  /**
+   * Wallet chain registry configuration
+   * Remembers the wallet chain claimed for each wallet owner, so reconnecting
+   * or switching back to a previous account reuses its chain instead of claiming.
+   * Set to `false` to always claim a new wallet chain.
+   *
+   * @example
+   * // Keep the registry for the browser session only
+   * walletChains={{ storage: 'sessionStorage' }}
+   */
+  walletChains?: WalletChainRegistryConfig | false;
+
+  /**
+   * Supervised recovery from WASM runtime crashes
+   *
+   * @example
+   * recovery={{ enabled: true, maxRestarts: 3, windowMs: 60_000 }}
+   */
+  recovery?: RecoveryPolicy;
+
+  /**
+   * Chain cache capacity and TTL
+   *
+   * @example
+   * chainCache={{ capacity: 25, ttlMs: 5 * 60_000 }}
+   */
+  chainCache?: ChainCacheConfig;
+
+  /**
+   * Cache of `public.query` results, with stale-while-revalidate
+   * and invalidation on new blocks (disabled by default)
+   *
+   * @example
+   * queryCache={{ enabled: true, ttlMs: 10_000, staleWhileRevalidateMs: 60_000 }}
+   */
+  queryCache?: QueryCacheConfig;
+
+  /**
+   * Merge `public.query` calls issued together to one application into a
+   * single GraphQL request (disabled by default)
+   *
+   * @example
+   * queryBatching={{ enabled: true, windowMs: 10, maxBatchSize: 20 }}
+   */
+  queryBatching?: QueryBatchingConfig;
+
+  /**
+   * Default timeouts for queries, mutations and initialization
+   * (per-call `timeoutMs` overrides them)
+   *
+   * @example
+   * timeouts={{ queryMs: 10_000, mutationMs: 60_000 }}
+   */
+  timeouts?: OperationTimeoutConfig;
+
+  /**
+   * Look up the owners of a chain (e.g. from your backend or an indexer)
+   *
+   * Used by getChainApplication() for chains the manager did not claim.
+   * Without it, the chain's identity is used, which only resolves single-owner chains.
+   */
+  resolveChainOwners?: (chainId: string) => Promise<string[]> | string[];
+
+  /**
+   * How much history exportDiagnostics() keeps
+   *
+   * @example
+   * diagnostics={{ historySize: 100 }}
+   */
+  diagnostics?: DiagnosticsConfig;
+
+  /**
+   * Where to load the Linera WASM module from
+   *
+   * - URL string: full module URL, absolute or relative to the page origin
+   * - `{ basePath }`: directory holding the copied Linera assets (`wasm/index.js` is appended)
+   * - Async factory: returns the module itself (bundler-resolved import, tests)
+   * - `{ package, wasmPath? }`: imports the npm package by name; outside the browser
+   *   the WASM binary is read from `wasmPath` or found in `node_modules`
+   *
+   * @default { basePath: '/linera' } (loads `${origin}/linera/wasm/index.js`)
+   *
+   * @example
+   * // Assets served from a CDN sub-path
+   * moduleLoader={{ basePath: 'https://cdn.example.com/app/linera' }}
+   *
+   * @example
+   * // Bundler-resolved import
+   * moduleLoader={() => import('@linera/client')}
+   */
+  moduleLoader?: LineraModuleLoader;
+
   /**
    * @linera/client config 
    * this is passed directly to the client init function
@@ -150,8 +1045,18 @@ export interface ClientConfig {
  * Public app interface - operations that don't require user wallet
  */
 export interface PublicApp {
-  /** Execute GraphQL query on public chain */
-  query<T = unknown>(gql: string, options?: QueryOptions): Promise<T>;
+  /** Execute GraphQL query on public chain (raw string: the response is returned as is) */
+  query<T = unknown>(gql: string, options?: OperationOptions): Promise<T>;
+  /** Execute a typed GraphQL query on public chain, returning its `data` */
+  query<TResult, TVariables>(
+    document: TypedDocument<TResult, TVariables>,
+    ...args: DocumentOperationArgs<TVariables>
+  ): Promise<TResult>;
+  /** Execute a query on public chain from a request object, returning `data` and `errors` */
+  query<TData = unknown, TVariables = Record<string, unknown>>(
+    request: GraphQLRequest<TData, TVariables>,
+    options?: OperationOptions
+  ): Promise<GraphQLResponse<TData>>;
 
   /** Get connected public address */
   getAddress(): string;
@@ -160,15 +1065,35 @@ export interface PublicApp {
   getChainId(): string;
 
   /** Execute system mutations (auto-signed with temporary wallet, no user prompt) */
-  systemMutate<T = unknown>(gql: string, options?: QueryOptions): Promise<T>;
+  systemMutate<T = unknown>(gql: string, options?: OperationOptions): Promise<T>;
+  /** Execute a typed system mutation, returning its `data` */
+  systemMutate<TResult, TVariables>(
+    document: TypedDocument<TResult, TVariables>,
+    ...args: DocumentOperationArgs<TVariables>
+  ): Promise<TResult>;
+  /** Execute a system mutation from a request object, returning `data` and `errors` */
+  systemMutate<TData = unknown, TVariables = Record<string, unknown>>(
+    request: GraphQLRequest<TData, TVariables>,
+    options?: OperationOptions
+  ): Promise<GraphQLResponse<TData>>;
 }
 
 /**
  * Wallet app interface - operations requiring user wallet
  */
 export interface WalletApp {
-  /** Execute GraphQL query on wallet chain */
-  query<T = unknown>(gql: string, options?: QueryOptions): Promise<T>;
+  /** Execute GraphQL query on wallet chain (raw string: the response is returned as is) */
+  query<T = unknown>(gql: string, options?: OperationOptions): Promise<T>;
+  /** Execute a typed GraphQL query on wallet chain, returning its `data` */
+  query<TResult, TVariables>(
+    document: TypedDocument<TResult, TVariables>,
+    ...args: DocumentOperationArgs<TVariables>
+  ): Promise<TResult>;
+  /** Execute a query on wallet chain from a request object, returning `data` and `errors` */
+  query<TData = unknown, TVariables = Record<string, unknown>>(
+    request: GraphQLRequest<TData, TVariables>,
+    options?: OperationOptions
+  ): Promise<GraphQLResponse<TData>>;
 
   /** Get connected wallet address */
   getAddress(): string;
@@ -176,8 +1101,18 @@ export interface WalletApp {
   /** Get wallet chain ID */
   getChainId(): string;
 
-  /** Execute user mutations (requires wallet signature) */
-  mutate<T = unknown>(gql: string, options?: QueryOptions): Promise<T>;
+  /** Execute user mutations (requires wallet signature; `optimistic` patches cached queries meanwhile) */
+  mutate<T = unknown>(gql: string, options?: MutationOptions): Promise<T>;
+  /** Execute a typed user mutation, returning its `data` */
+  mutate<TResult, TVariables>(
+    document: TypedDocument<TResult, TVariables>,
+    ...args: DocumentOperationArgs<TVariables, MutationOptions>
+  ): Promise<TResult>;
+  /** Execute a user mutation from a request object, returning `data` and `errors` */
+  mutate<TData = unknown, TVariables = Record<string, unknown>>(
+    request: GraphQLRequest<TData, TVariables>,
+    options?: MutationOptions
+  ): Promise<GraphQLResponse<TData>>;
 }
 
 /**
@@ -185,17 +1120,49 @@ export interface WalletApp {
  * Similar to WalletApp but for arbitrary chains accessed via getChain()
  */
 export interface ChainApp {
-  /** Execute GraphQL query on the chain */
-  query<T = unknown>(gql: string, options?: QueryOptions): Promise<T>;
+  /** Execute GraphQL query on the chain (raw string: the response is returned as is) */
+  query<T = unknown>(gql: string, options?: OperationOptions): Promise<T>;
+  /** Execute a typed GraphQL query on the chain, returning its `data` */
+  query<TResult, TVariables>(
+    document: TypedDocument<TResult, TVariables>,
+    ...args: DocumentOperationArgs<TVariables>
+  ): Promise<TResult>;
+  /** Execute a query on the chain from a request object, returning `data` and `errors` */
+  query<TData = unknown, TVariables = Record<string, unknown>>(
+    request: GraphQLRequest<TData, TVariables>,
+    options?: OperationOptions
+  ): Promise<GraphQLResponse<TData>>;
 
-  /** Get chain owner address */
+  /**
+   * Get chain owner address (the owner signing mutations, else the first known owner)
+   * @throws ChainNotOwnedError if no owner is known
+   */
   getAddress(): string;
 
+  /** Known owners of the chain (empty if they could not be determined) */
+  getOwners(): string[];
+
+  /** Whether a local signer owns the chain (mutations are allowed) */
+  canMutate(): boolean;
+
   /** Get chain ID */
   getChainId(): string;
 
-  /** Execute mutations on the chain (signed by chain's signer) */
-  mutate<T = unknown>(gql: string, options?: QueryOptions): Promise<T>;
+  /**
+   * Execute mutations on the chain (signed by the local signer owning it)
+   * @throws ChainNotOwnedError if no local signer owns the chain
+   */
+  mutate<T = unknown>(gql: string, options?: OperationOptions): Promise<T>;
+  /** Execute a typed mutation on the chain, returning its `data` */
+  mutate<TResult, TVariables>(
+    document: TypedDocument<TResult, TVariables>,
+    ...args: DocumentOperationArgs<TVariables>
+  ): Promise<TResult>;
+  /** Execute a mutation on the chain from a request object, returning `data` and `errors` */
+  mutate<TData = unknown, TVariables = Record<string, unknown>>(
+    request: GraphQLRequest<TData, TVariables>,
+    options?: OperationOptions
+  ): Promise<GraphQLResponse<TData>>;
 }
 
 /**
@@ -218,6 +1185,323 @@ export interface ApplicationClient {
   readonly wallet?: WalletApp;
 }
 
+/**
+ * Application operation descriptor (query or mutation)
+ */
+export interface OperationInfo {
+  /** Unique operation ID (per manager) */
+  id: number;
+
+  /** Operation kind */
+  kind: 'query' | 'mutation';
+
+  /** Which client interface ran the operation */
+  source: 'public' | 'wallet' | 'chain';
+
+  /** Application ID */
+  appId: string;
+
+  /** Chain the operation ran on */
+  chainId?: string;
+}
+
+/**
+ * Completed application operation
+ */
+export interface OperationResult extends OperationInfo {
+  /** Duration in milliseconds */
+  durationMs: number;
+
+  /** Error if the operation failed */
+  error?: Error;
+}
+
+/**
+ * Observer notified around application operations
+ * (the manager uses it to emit query/mutation events and detect WASM runtime faults)
+ */
+export interface OperationObserver {
+  /** Called before the operation runs; returns its descriptor */
+  start(info: Omit<OperationInfo, 'id'>): OperationInfo;
+
+  /** Called when the operation finished (successfully or not) */
+  finish(info: OperationInfo, startedAt: number, error?: unknown): void;
+}
+
+/**
+ * Diagnostics recording limits
+ */
+export interface DiagnosticsConfig {
+  /**
+   * Number of mode transitions, errors and operation timings kept (each)
+   * @default 50
+   */
+  historySize?: number;
+}
+
+/**
+ * Recorded mode transition
+ */
+export interface ModeHistoryEntry {
+  /** Mode entered */
+  mode: ClientMode;
+
+  /** Mode left */
+  previousMode: ClientMode;
+
+  /** When the transition happened (ISO 8601) */
+  at: string;
+
+  /** Time spent in the previous mode (ms) */
+  durationMs: number;
+
+  /** Error message, if the transition was caused by a failure */
+  error?: string;
+}
+
+/**
+ * Recorded error (plain object, safe to serialize)
+ */
+export interface DiagnosticsErrorEntry {
+  /** When the error was recorded (ISO 8601) */
+  at: string;
+
+  /** Where it happened (e.g. 'mode', 'public.query', 'recovery') */
+  source: string;
+
+  /** Error name (class) */
+  name: string;
+
+  /** Stable error code (LineraError only) */
+  code?: string;
+
+  /** Error message */
+  message: string;
+
+  /** Message of the underlying cause, if any */
+  cause?: string;
+}
+
+/**
+ * Recorded application operation timing
+ */
+export interface OperationTiming {
+  kind: OperationInfo['kind'];
+  source: OperationInfo['source'];
+  appId: string;
+  chainId?: string;
+
+  /** When the operation finished (ISO 8601) */
+  at: string;
+
+  /** Duration in milliseconds */
+  durationMs: number;
+
+  /** Whether the operation failed */
+  failed: boolean;
+}
+
+/**
+ * Serializable snapshot of the client manager, meant to be attached to bug reports
+ */
+export interface LineraDiagnosticsReport {
+  /** When the report was generated (ISO 8601) */
+  generatedAt: string;
+
+  /** Current mode */
+  mode: ClientMode;
+
+  /** Mode before the last transition */
+  previousMode: ClientMode | null;
+
+  /** Recent mode transitions (oldest first) */
+  modeHistory: ModeHistoryEntry[];
+
+  /** Public and wallet chains */
+  chains: {
+    publicChainId: string | null;
+    publicAddress: string | null;
+    walletChainId: string | null;
+    walletAddress: string | null;
+    claimedChainIds: string[];
+  };
+
+  /** Cache contents and sizes */
+  caches: {
+    chains: ChainCacheStats & { chainIds: string[] };
+    queries: QueryCacheStats;
+    applications: { size: number; appIds: string[] };
+    walletChainCached: boolean;
+  };
+
+  /** Faucet in use (null without faucet) and its availability */
+  faucet: {
+    url: string | null;
+    unavailable: FaucetUnavailable | null;
+  };
+
+  /** Linera module */
+  module: {
+    /** Whether the WASM runtime is loaded and initialized */
+    loaded: boolean;
+
+    /** Where the module is loaded from */
+    source: string;
+
+    /** Module version, when the module or its package exposes it */
+    version: string | null;
+  };
+
+  /** Runtime environment */
+  environment: {
+    runtime: 'browser' | 'node' | 'unknown';
+    /** `crossOriginIsolated` (null where the global does not exist) */
+    crossOriginIsolated: boolean | null;
+    sharedArrayBuffer: boolean;
+    userAgent: string | null;
+  };
+
+  /** Recovery supervisor state */
+  recovery: {
+    enabled: boolean;
+    recovering: boolean;
+  };
+
+  /** Recent errors (oldest first) */
+  errors: DiagnosticsErrorEntry[];
+
+  /** Recent timings */
+  timings: {
+    /** Duration of the last successful initialization (ms) */
+    initializationMs: number | null;
+
+    /** Recent application operations (oldest first) */
+    operations: OperationTiming[];
+  };
+}
+
+/**
+ * Supervised recovery policy for WASM runtime faults
+ */
+export interface RecoveryPolicy {
+  /**
+   * Restart the client automatically after a WASM runtime fault
+   * ("RuntimeError: unreachable", memory faults) in query, mutate or getChain
+   * @default false
+   */
+  enabled?: boolean;
+
+  /**
+   * Maximum automatic restarts within `windowMs`
+   * @default 3
+   */
+  maxRestarts?: number;
+
+  /**
+   * Time window for `maxRestarts`
+   * @default 60000
+   */
+  windowMs?: number;
+
+  /**
+   * Allow `window.location.reload()` as last resort (restart limit reached
+   * or WASM re-initialization failed)
+   * @default false
+   */
+  allowPageReload?: boolean;
+}
+
+/**
+ * Recovery lifecycle event
+ */
+export type RecoveryEvent =
+  | { type: 'recovering'; error: Error; attempt: number }
+  | { type: 'recovered'; attempt: number; durationMs: number }
+  | { type: 'failed'; error: Error; reason: 'max_restarts' | 'reinit_failed' };
+
+/**
+ * Recovery event callback
+ */
+export type RecoveryEventCallback = (event: RecoveryEvent) => void;
+
+/**
+ * Options for LineraClientManager.reinit()
+ */
+export interface ReinitOptions {
+  /**
+   * Allow `window.location.reload()` when re-initialization fails
+   * @default RecoveryPolicy.allowPageReload (false)
+   */
+  allowPageReload?: boolean;
+}
+
+/**
+ * Lifecycle events emitted by LineraClientManager
+ */
+export interface LineraClientEvents {
+  /** The client mode changed */
+  modeChanged: { mode: ClientMode; previousMode: ClientMode; error?: Error };
+
+  /** Read-only mode initialized (public chain ready) */
+  initialized: { publicChainId: string; publicAddress: string; restored: boolean };
+
+  /** A new public chain was claimed from the faucet */
+  publicChainClaimed: { chainId: string; owner: string; faucetUrl: string };
+
+  /** A wallet was connected (no wallet was connected before) */
+  walletConnected: { address: string; chainId: string; reusedChain: boolean };
+
+  /** The connected wallet was replaced by another account */
+  walletSwitched: { previousAddress: string; address: string; chainId: string; reusedChain: boolean };
+
+  /** The wallet was disconnected (public chain still active) */
+  walletDisconnected: { address: string };
+
+  /** An additional chain was claimed for the wallet owner */
+  chainClaimed: { chainId: string; owner: string; faucetUrl: string };
+
+  /** A chain was added to the chain cache */
+  chainCached: { chainId: string; size: number };
+
+  /** A chain was removed from the chain cache */
+  chainEvicted: { chainId: string; reason: 'capacity' | 'expired' | 'cleared' };
+
+  /** The application cache was invalidated */
+  appCacheInvalidated: { entries: number; reason: 'walletConnected' | 'walletDisconnected' | 'cleared' };
+
+  /** An application query started */
+  queryStarted: OperationInfo;
+
+  /** An application query finished */
+  queryFinished: OperationResult;
+
+  /** An application mutation started */
+  mutationStarted: OperationInfo;
+
+  /** An application mutation finished */
+  mutationFinished: OperationResult;
+
+  /** A wallet mutation started or settled (all pending mutations) */
+  pendingMutationsChanged: { pending: PendingMutation[] };
+
+  /** Cached query results changed through optimistic updates (re-run the listed queries) */
+  queriesChanged: QueryChange;
+
+  /** Supervised recovery started after a WASM runtime fault */
+  recovering: Extract<RecoveryEvent, { type: 'recovering' }>;
+
+  /** Supervised recovery completed */
+  recovered: Extract<RecoveryEvent, { type: 'recovered' }>;
+
+  /** Supervised recovery gave up */
+  recoveryFailed: Extract<RecoveryEvent, { type: 'failed' }>;
+}
+
+/**
+ * Lifecycle event name
+ */
+export type LineraClientEventName = keyof LineraClientEvents;
+
 /**
  * State change callback
  */
@@ -242,8 +1526,29 @@ export interface ILineraClientManager {
   /** Get current wallet instance */
   getWallet(): Wallet | null;
 
+  /** Keep a chain in the chain cache until the returned release function is called */
+  pinChain(chainId: string): () => void;
+
+  /** Get cache statistics (hits, misses, evictions) */
+  getCacheStats(): CacheStats;
+
+  /** Drop cached query results of an application (optionally only queries matching a pattern) */
+  invalidateQueries(appId: string, pattern?: string | RegExp): number;
+
+  /** Wallet mutations that have not settled yet (optionally of one application) */
+  getPendingMutations(appId?: string): PendingMutation[];
+
+  /** Serializable report of the manager state for bug reports */
+  exportDiagnostics(): LineraDiagnosticsReport;
+
   /** Initialize in read-only mode */
-  initializeReadOnly(): Promise<void>;
+  initializeReadOnly(options?: CancellationOptions): Promise<void>;
+
+  /** Load the WASM runtime without claiming a chain */
+  preload(): Promise<void>;
+
+  /** Start lazy mode (preload per policy, claim on first use) */
+  initializeLazy(): void;
 
   /** Connect MetaMask wallet */
   connectWallet(signer: Signer): Promise<void>;
@@ -254,12 +1559,33 @@ export interface ILineraClientManager {
   /** Switch to different wallet */
   switchWallet(newSigner: Signer): Promise<void>;
 
+  /** Close the faucet circuit breaker (manual retry) */
+  resetFaucetAvailability(): void;
+
+  /** Forget the wallet chain remembered for an owner */
+  forgetWalletChain(owner: string): void;
+
   /** Get application interface */
   getApplication(appId: string): Promise<ApplicationClient | null>;
 
   /** Get application interface for a specific chain */
   getChainApplication(chainId: string, appId: string): Promise<ChainApp | null>;
 
+  /** Claim an additional chain for the connected wallet */
+  claimChain(options?: ClaimChainOptions): Promise<OwnedChain>;
+
+  /** List chains owned by the manager's signers (public, wallet and claimed chains) */
+  listOwnedChains(): OwnedChain[];
+
+  /** Get the native token balance of a chain (chain account only; owner balances are not exposed) */
+  getBalance(chainId: string, options?: CancellationOptions): Promise<Amount>;
+
+  /** Transfer native tokens (signed by the signer owning the source chain) */
+  transfer(request: TransferRequest): Promise<void>;
+
+  /** Subscribe to the notifications of a chain (survives reinit and wallet switches) */
+  subscribe(chainId: string, filter: NotificationFilter, handler: NotificationHandler, options?: SubscribeOptions): () => void;
+
   /** Check if client can perform write operations */
   canWrite(): boolean;
 
@@ -272,7 +1598,16 @@ export interface ILineraClientManager {
   /**
    * reinitialize client, useful when 'runtime' error occur
    */
-  // reinit(): Promise<void>;
+  reinit(options?: ReinitOptions): Promise<void>;
+
+  /** Subscribe to recovery events (recovering/recovered/failed) */
+  onRecoveryEvent(callback: RecoveryEventCallback): () => void;
+
+  /** Subscribe to a lifecycle event */
+  on<K extends LineraClientEventName>(event: K, listener: (payload: LineraClientEvents[K]) => void): () => void;
+
+  /** Subscribe to the next occurrence of a lifecycle event */
+  once<K extends LineraClientEventName>(event: K, listener: (payload: LineraClientEvents[K]) => void): () => void;
 }
 
 /**
@@ -296,8 +1631,20 @@ export interface LineraModule {
 
   /** Signer interface (implemented by user) */
   Signer: typeof Signer;
+
+  /** Module version (exported by some builds; read from package.json by the Node.js package loader) */
+  version?: string;
 }
 
+/**
+ * Source of the Linera WASM module
+ */
+export type LineraModuleLoader =
+  | string
+  | { basePath: string }
+  | { package: string; wasmPath?: string }
+  | (() => Promise<unknown>);
+
 /**
  * Re-export Linera types for convenience
  */
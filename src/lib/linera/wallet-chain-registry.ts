@@ -0,0 +1,137 @@
+/**
+ * Wallet Chain Registry
+ *
+ * Remembers which wallet chain was claimed for each wallet owner, so that
+ * reconnecting (after a reload or an account switch) reuses the owner's
+ * chain and its on-chain state instead of claiming a new one.
+ *
+ * Entries are scoped per faucet so chains from another network are never reused.
+ */
+
+import type { WalletChainRegistryConfig } from './types';
+import {
+  resolveStorage,
+  readJson,
+  writeJson,
+  removeItem,
+  createMemoryStorage,
+  type StorageAdapter,
+} from '../../utils/storage';
+import { logger } from '../../utils/logger';
+
+/**
+ * Registry entry for a single owner
+ */
+export interface WalletChainEntry {
+  /** Wallet chain ID claimed for the owner */
+  chainId: string;
+
+  /** Faucet the chain was claimed from */
+  faucetUrl: string;
+
+  /** Additional chains claimed for the owner with claimChain() (same faucet) */
+  claimedChains?: string[];
+
+  /** Last time the entry was written (ms since epoch) */
+  updatedAt: number;
+}
+
+/**
+ * Owner (lowercase) → wallet chain entry
+ */
+type RegistryRecord = Record<string, WalletChainEntry>;
+
+/**
+ * Owner → wallet chain ID registry backed by a pluggable storage
+ */
+export class WalletChainRegistry {
+  private storage: StorageAdapter;
+  private storageKey: string;
+
+  constructor(config?: WalletChainRegistryConfig) {
+    // Fall back to memory so account switches within a session still reuse chains
+    this.storage = resolveStorage(config?.storage ?? 'localStorage') ?? createMemoryStorage();
+    this.storageKey = config?.storageKey ?? 'linera_wallet_chains';
+  }
+
+  /**
+   * Get the wallet chain known for an owner on the given faucet(s)
+   */
+  get(owner: string, faucetUrls: string | string[]): string | null {
+    const urls = Array.isArray(faucetUrls) ? faucetUrls : [faucetUrls];
+    const entry = this.read()[owner.toLowerCase()];
+    if (!entry || !urls.includes(entry.faucetUrl)) {
+      return null;
+    }
+    return entry.chainId;
+  }
+
+  /**
+   * Remember the wallet chain claimed for an owner
+   */
+  set(owner: string, chainId: string, faucetUrl: string): void {
+    const record = this.read();
+    const previous = record[owner.toLowerCase()];
+    // Claimed chains stay valid when the wallet chain is replaced on the same faucet
+    const claimedChains = previous?.faucetUrl === faucetUrl ? previous.claimedChains : undefined;
+
+    record[owner.toLowerCase()] = { chainId, faucetUrl, claimedChains, updatedAt: Date.now() };
+    writeJson(this.storage, this.storageKey, record);
+    logger.debug(`[WalletChainRegistry] Stored wallet chain for ${owner}: ${chainId}`);
+  }
+
+  /**
+   * Get the additional chains claimed for an owner on the given faucet(s)
+   */
+  getClaimedChains(owner: string, faucetUrls: string | string[]): string[] {
+    const urls = Array.isArray(faucetUrls) ? faucetUrls : [faucetUrls];
+    const entry = this.read()[owner.toLowerCase()];
+    if (!entry || !urls.includes(entry.faucetUrl)) {
+      return [];
+    }
+    return entry.claimedChains ?? [];
+  }
+
+  /**
+   * Remember an additional chain claimed for an owner (requires its wallet chain entry)
+   */
+  addClaimedChain(owner: string, chainId: string, faucetUrl: string): void {
+    const record = this.read();
+    const entry = record[owner.toLowerCase()];
+    if (!entry || entry.faucetUrl !== faucetUrl) {
+      logger.debug(`[WalletChainRegistry] No wallet chain entry for ${owner} on ${faucetUrl}, not storing ${chainId}`);
+      return;
+    }
+
+    const claimedChains = entry.claimedChains ?? [];
+    if (claimedChains.includes(chainId)) return;
+
+    record[owner.toLowerCase()] = { ...entry, claimedChains: [...claimedChains, chainId], updatedAt: Date.now() };
+    writeJson(this.storage, this.storageKey, record);
+    logger.debug(`[WalletChainRegistry] Stored claimed chain for ${owner}: ${chainId}`);
+  }
+
+  /**
+   * Forget the wallet chain of an owner
+   */
+  remove(owner: string): void {
+    const record = this.read();
+    if (!record[owner.toLowerCase()]) return;
+
+    delete record[owner.toLowerCase()];
+    writeJson(this.storage, this.storageKey, record);
+    logger.debug(`[WalletChainRegistry] Removed wallet chain for ${owner}`);
+  }
+
+  /**
+   * Forget all owners
+   */
+  clear(): void {
+    removeItem(this.storage, this.storageKey);
+  }
+
+  private read(): RegistryRecord {
+    const record = readJson<RegistryRecord>(this.storage, this.storageKey);
+    return record && typeof record === 'object' ? record : {};
+  }
+}
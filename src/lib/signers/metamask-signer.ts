@@ -1,6 +1,12 @@
 import { ethers } from "ethers";
 import { Signer as SignerInterface } from "@linera/client";
 import type { MetaMaskInpageProvider } from "@metamask/providers";
+import {
+  LineraError,
+  SignatureRejectedError,
+  WalletNotConnectedError,
+  isSignatureRejection,
+} from "../linera/errors";
 
 declare global {
   interface Window {
@@ -16,8 +22,9 @@ declare global {
  * mechanism for message signing through the user's MetaMask wallet.
  *
  * ⚠️ WARNING: This signer requires MetaMask to be installed and unlocked in the browser.
- * It will throw errors if MetaMask is unavailable, the user rejects a request, or
- * if the requested signer is not among the connected accounts.
+ * It throws WalletNotConnectedError if MetaMask is unavailable or the requested
+ * signer is not among the connected accounts, and SignatureRejectedError if the
+ * user rejects the signature request (EIP-1193 code 4001).
  *
  * The `MetaMask` signer verifies that the connected account matches the specified
  * owner address before signing a message. All messages are encoded as hexadecimal
@@ -30,14 +37,14 @@ export class MetaMaskSigner implements SignerInterface {
 
   constructor() {
     if (typeof window === "undefined" || !window.ethereum) {
-      throw new Error("MetaMask is not available");
+      throw new WalletNotConnectedError("MetaMask is not available");
     }
     this.provider = new ethers.BrowserProvider(window.ethereum!);
   }
 
   async sign(owner: string, value: Uint8Array): Promise<string> {
     if (!window.ethereum) {
-      throw new Error("MetaMask is not available");
+      throw new WalletNotConnectedError("MetaMask is not available");
     }
 
     // Explicitly type the result and check for undefined
@@ -46,14 +53,14 @@ export class MetaMaskSigner implements SignerInterface {
     })) as string[] | undefined;
 
     if (!accounts || accounts.length === 0) {
-      throw new Error("No MetaMask accounts connected");
+      throw new WalletNotConnectedError("No MetaMask accounts connected");
     }
 
     const connected = accounts.find(
       (acc) => acc.toLowerCase() === owner.toLowerCase(),
     );
     if (!connected) {
-      throw new Error(
+      throw new WalletNotConnectedError(
         `MetaMask is not connected with the requested owner: ${owner}`,
       );
     }
@@ -67,14 +74,22 @@ export class MetaMaskSigner implements SignerInterface {
       })) as string;
 
       if (!signature) {
-        throw new Error("No signature returned");
+        throw new LineraError("SIGNER_ERROR", "No signature returned");
       }
 
       return signature;
       // eslint-disable-next-line
     } catch (err: any) {
-      throw new Error(
+      if (err instanceof LineraError) {
+        throw err;
+      }
+      if (isSignatureRejection(err)) {
+        throw new SignatureRejectedError({ cause: err });
+      }
+      throw new LineraError(
+        "SIGNER_ERROR",
         `MetaMask signature request failed: ${err?.message || err}`,
+        { cause: err },
       );
     }
   }
@@ -6,9 +6,10 @@
 
 'use client';
 
-import { useEffect, useState } from 'react';
-import { createLineraClient } from '../lib/linera';
-import type { ClientConfig } from '../lib/linera/types';
+import { useCallback, useEffect, useState } from 'react';
+import { createLineraClient, getLineraClientManager } from '../lib/linera';
+import { FaucetUnavailableError } from '../lib/linera/errors';
+import type { ClientConfig, FaucetUnavailable } from '../lib/linera/types';
 import { createLogger, logger, type LoggerConfig } from '../utils/logger';
 
 export interface LineraProviderProps extends ClientConfig {
@@ -57,6 +58,18 @@ export interface LineraProviderProps extends ClientConfig {
    */
   errorFallback?: (error: Error) => React.ReactNode;
 
+  /**
+   * Custom UI shown when initialization failed because the faucet is unavailable
+   * (circuit breaker open, e.g. the faucet keeps rate-limiting)
+   * If not provided, shows a default message with a retry button
+   *
+   * @example
+   * faucetUnavailableFallback={(state, retry) => (
+   *   <FaucetDown retryAt={state.retryAt} onRetry={retry} />
+   * )}
+   */
+  faucetUnavailableFallback?: (state: FaucetUnavailable, retry: () => void) => React.ReactNode;
+
   /**
    * Immediate mode - render children immediately without waiting for initialization
    * WARNING: Components must check isInitialized before using Linera to avoid WASM errors
@@ -108,11 +121,13 @@ export function LineraProvider({
   logging,
   fallback,
   errorFallback,
+  faucetUnavailableFallback,
   immediate = false,
   ...clientConfig
 }: LineraProviderProps) {
   const [isInitialized, setIsInitialized] = useState(false);
   const [error, setError] = useState<Error | null>(null);
+  const [attempt, setAttempt] = useState(0);
 
   // Initialize logger on mount
   useEffect(() => {
@@ -134,6 +149,14 @@ export function LineraProvider({
         // Create client manager
         const clientManager = createLineraClient(clientConfig);
 
+        if (clientConfig.lazy) {
+          // Lazy mode: only (pre)load WASM, the public chain is claimed on first use
+          clientManager.initializeLazy();
+          setIsInitialized(true);
+          logger.info('Client ready (lazy mode)');
+          return;
+        }
+
         // Initialize in read-only mode
         await clientManager.initializeReadOnly();
 
@@ -147,13 +170,38 @@ export function LineraProvider({
     };
 
     initClient();
-  }, [clientConfig]);
+  }, [clientConfig, attempt]);
+
+  // Retry initialization after the faucet was unavailable
+  const retry = useCallback(() => {
+    getLineraClientManager()?.resetFaucetAvailability();
+    setError(null);
+    setAttempt((n) => n + 1);
+  }, []);
 
   // Immediate mode: render children immediately (advanced users only)
   if (immediate) {
     return <>{children}</>;
   }
 
+  // Faucet unavailable state
+  if (error instanceof FaucetUnavailableError) {
+    if (faucetUnavailableFallback) {
+      return <>{faucetUnavailableFallback(error.state, retry)}</>;
+    }
+
+    return (
+      <div style={{ padding: '20px' }}>
+        <h2>Linera Faucet Unavailable</h2>
+        <p>
+          The faucet is temporarily unavailable. Please try again after{' '}
+          {new Date(error.state.retryAt).toLocaleTimeString()}.
+        </p>
+        <button onClick={retry}>Retry</button>
+      </div>
+    );
+  }
+
   // Error state
   if (error) {
     // Custom error component
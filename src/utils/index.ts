@@ -16,3 +16,12 @@ export {
   type LoggerConfig,
   type CustomLogger,
 } from './logger';
+
+export {
+  createMemoryStorage,
+  getBrowserStorage,
+  resolveStorage,
+  type StorageAdapter,
+  type StorageOption,
+  type BrowserStorageType,
+} from './storage';
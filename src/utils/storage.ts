@@ -0,0 +1,111 @@
+/**
+ * Storage Utilities for Linera React Client
+ *
+ * Minimal key/value storage abstraction used to persist client data
+ * (temporary signer keys, claimed chains). Compatible with the Web Storage
+ * API, so `localStorage` and `sessionStorage` can be passed directly.
+ */
+
+import { logger } from './logger';
+
+/**
+ * Synchronous key/value storage (Web Storage compatible)
+ */
+export interface StorageAdapter {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/**
+ * Built-in browser storage types
+ */
+export type BrowserStorageType = 'localStorage' | 'sessionStorage';
+
+/**
+ * Get a browser storage instance
+ *
+ * @returns The storage, or null outside the browser or when access is denied
+ */
+export function getBrowserStorage(type: BrowserStorageType): StorageAdapter | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    return type === 'localStorage' ? window.localStorage : window.sessionStorage;
+  } catch (error) {
+    // Accessing storage throws when disabled (e.g. sandboxed iframes)
+    logger.warn(`[Storage] ${type} is not available:`, error);
+    return null;
+  }
+}
+
+/**
+ * Storage option accepted in configuration: a browser storage type,
+ * 'none' to disable persistence, or a custom adapter
+ */
+export type StorageOption = BrowserStorageType | 'none' | StorageAdapter;
+
+/**
+ * Resolve a storage option to an adapter
+ *
+ * @returns The adapter, or null when disabled or unavailable
+ */
+export function resolveStorage(option: StorageOption | undefined): StorageAdapter | null {
+  if (!option || option === 'none') return null;
+  if (typeof option === 'string') return getBrowserStorage(option);
+  return option;
+}
+
+/**
+ * Create an in-memory storage (not persisted, useful for tests and servers)
+ */
+export function createMemoryStorage(): StorageAdapter {
+  const entries = new Map<string, string>();
+
+  return {
+    getItem: (key) => entries.get(key) ?? null,
+    setItem: (key, value) => {
+      entries.set(key, value);
+    },
+    removeItem: (key) => {
+      entries.delete(key);
+    },
+  };
+}
+
+/**
+ * Read and parse a JSON value
+ *
+ * @returns Parsed value, or null when missing or unreadable
+ */
+export function readJson<T>(storage: StorageAdapter, key: string): T | null {
+  try {
+    const raw = storage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch (error) {
+    logger.warn(`[Storage] Failed to read ${key}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Serialize and write a JSON value (errors are logged, not thrown)
+ */
+export function writeJson(storage: StorageAdapter, key: string, value: unknown): void {
+  try {
+    storage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    logger.warn(`[Storage] Failed to write ${key}:`, error);
+  }
+}
+
+/**
+ * Remove a value (errors are logged, not thrown)
+ */
+export function removeItem(storage: StorageAdapter, key: string): void {
+  try {
+    storage.removeItem(key);
+  } catch (error) {
+    logger.warn(`[Storage] Failed to remove ${key}:`, error);
+  }
+}
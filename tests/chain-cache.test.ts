@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Chain } from '@linera/client';
+import { ChainCache } from '../src/lib/linera/chain-cache';
+
+function createChain(): Chain & { free: ReturnType<typeof vi.fn> } {
+  return { free: vi.fn() } as unknown as Chain & { free: ReturnType<typeof vi.fn> };
+}
+
+describe('ChainCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('frees unpinned chains in LRU order', () => {
+    const onEvict = vi.fn();
+    const cache = new ChainCache({ capacity: 2, onEvict });
+    const a = createChain();
+    const b = createChain();
+    const c = createChain();
+    const d = createChain();
+
+    cache.set('a', a);
+    cache.set('b', b);
+    // A hit makes `a` the most recently used
+    expect(cache.get('a')).toBe(a);
+
+    cache.set('c', c);
+    expect(cache.keys()).toEqual(['a', 'c']);
+    expect(b.free).toHaveBeenCalledTimes(1);
+    expect(a.free).not.toHaveBeenCalled();
+
+    cache.set('d', d);
+    expect(cache.keys()).toEqual(['c', 'd']);
+    expect(a.free).toHaveBeenCalledTimes(1);
+    expect(onEvict.mock.calls).toEqual([['b', 'capacity'], ['a', 'capacity']]);
+    expect(cache.getStats()).toMatchObject({ size: 2, evictions: 2 });
+  });
+
+  it('never evicts pinned chains', () => {
+    const cache = new ChainCache({ capacity: 1 });
+    const a = createChain();
+    const b = createChain();
+    const c = createChain();
+
+    const release = cache.pin('a');
+    cache.set('a', a);
+    cache.set('b', b);
+    cache.set('c', c);
+
+    // Over capacity rather than freeing a chain in use
+    expect(cache.keys()).toEqual(['a', 'c']);
+    expect(a.free).not.toHaveBeenCalled();
+    expect(b.free).toHaveBeenCalledTimes(1);
+
+    release();
+    cache.set('d', createChain());
+    expect(a.free).toHaveBeenCalledTimes(1);
+    expect(cache.has('a')).toBe(false);
+  });
+
+  it('counts pins and ignores repeated releases', () => {
+    const cache = new ChainCache({ capacity: 1 });
+    const a = createChain();
+    const first = cache.pin('a');
+    const second = cache.pin('a');
+    cache.set('a', a);
+
+    first();
+    first();
+    cache.set('b', createChain());
+    expect(a.free).not.toHaveBeenCalled();
+
+    second();
+    expect(cache.isPinned('a')).toBe(false);
+    cache.set('c', createChain());
+    expect(a.free).toHaveBeenCalledTimes(1);
+  });
+
+  it('expires chains after the TTL unless pinned', () => {
+    vi.useFakeTimers();
+    const onEvict = vi.fn();
+    const cache = new ChainCache({ capacity: 10, ttlMs: 1_000, onEvict });
+    const a = createChain();
+    const b = createChain();
+    cache.set('a', a);
+    cache.set('b', b);
+    cache.pin('b');
+
+    vi.advanceTimersByTime(999);
+    expect(cache.get('a')).toBe(a);
+
+    vi.advanceTimersByTime(1);
+    expect(cache.get('a')).toBeUndefined();
+    expect(a.free).toHaveBeenCalledTimes(1);
+    expect(onEvict).toHaveBeenCalledWith('a', 'expired');
+
+    expect(cache.get('b')).toBe(b);
+    expect(b.free).not.toHaveBeenCalled();
+  });
+
+  it('prunes expired chains before evicting for capacity', () => {
+    vi.useFakeTimers();
+    const cache = new ChainCache({ capacity: 2, ttlMs: 1_000 });
+    const a = createChain();
+    const b = createChain();
+    cache.set('a', a);
+    vi.advanceTimersByTime(500);
+    cache.set('b', b);
+    vi.advanceTimersByTime(500);
+
+    cache.set('c', createChain());
+    expect(cache.keys()).toEqual(['b', 'c']);
+    expect(a.free).toHaveBeenCalledTimes(1);
+    expect(b.free).not.toHaveBeenCalled();
+  });
+
+  it('frees a replaced instance and every chain on clear', () => {
+    const cache = new ChainCache();
+    const old = createChain();
+    const fresh = createChain();
+    cache.set('a', old);
+    cache.set('a', fresh);
+    expect(old.free).toHaveBeenCalledTimes(1);
+
+    cache.pin('a');
+    cache.clear();
+    expect(fresh.free).toHaveBeenCalledTimes(1);
+    expect(cache.size).toBe(0);
+    // Pins outlive clear() (the chain is reloaded after reinit)
+    expect(cache.isPinned('a')).toBe(true);
+  });
+});
@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Faucet } from '@linera/client';
+import { FaucetGuard } from '../src/lib/linera/faucet-guard';
+import { FaucetPool } from '../src/lib/linera/faucet-pool';
+import { AbortError, FaucetError, FaucetUnavailableError } from '../src/lib/linera/errors';
+
+const retry = { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 1_000, jitter: false };
+
+function transient(): Error {
+  return new Error('429 Too Many Requests');
+}
+
+describe('FaucetGuard', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('retries transient errors with backoff', async () => {
+    const guard = new FaucetGuard({ retry });
+    const fn = vi.fn()
+      .mockRejectedValueOnce(transient())
+      .mockRejectedValueOnce(transient())
+      .mockResolvedValue('chain');
+
+    const result = guard.run('claimChain', fn);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(fn).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(200);
+
+    await expect(result).resolves.toBe('chain');
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(guard.getUnavailable()).toBeNull();
+  });
+
+  it('does not retry other errors', async () => {
+    const guard = new FaucetGuard({ retry });
+    const fn = vi.fn().mockRejectedValue(new Error('invalid owner'));
+
+    await expect(guard.run('claimChain', fn)).rejects.toBeInstanceOf(FaucetError);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('opens the circuit, then lets one trial through after the cooldown', async () => {
+    const onAvailabilityChange = vi.fn();
+    const guard = new FaucetGuard({
+      retry: { ...retry, maxAttempts: 1 },
+      circuitBreaker: { failureThreshold: 2, cooldownMs: 5_000 },
+      onAvailabilityChange,
+    });
+    const failing = vi.fn().mockRejectedValue(transient());
+
+    await expect(guard.run('claimChain', failing)).rejects.toBeInstanceOf(FaucetError);
+    expect(guard.getUnavailable()).toBeNull();
+    await expect(guard.run('claimChain', failing)).rejects.toBeInstanceOf(FaucetError);
+    expect(guard.getUnavailable()).toMatchObject({ consecutiveFailures: 2 });
+    expect(onAvailabilityChange).toHaveBeenCalledTimes(1);
+
+    // Open: fails fast without calling the faucet
+    await expect(guard.run('claimChain', failing)).rejects.toBeInstanceOf(FaucetUnavailableError);
+    expect(failing).toHaveBeenCalledTimes(2);
+
+    // Half-open: a failed trial re-opens the circuit for another cooldown
+    await vi.advanceTimersByTimeAsync(5_000);
+    await expect(guard.run('claimChain', failing)).rejects.toBeInstanceOf(FaucetError);
+    expect(failing).toHaveBeenCalledTimes(3);
+    await expect(guard.run('claimChain', failing)).rejects.toBeInstanceOf(FaucetUnavailableError);
+
+    // Half-open: a successful trial closes it
+    await vi.advanceTimersByTimeAsync(5_000);
+    await expect(guard.run('claimChain', () => Promise.resolve('chain'))).resolves.toBe('chain');
+    expect(guard.getUnavailable()).toBeNull();
+    expect(onAvailabilityChange).toHaveBeenLastCalledWith(null);
+  });
+
+  it('stops retrying once the signal aborts', async () => {
+    const guard = new FaucetGuard({ retry });
+    const controller = new AbortController();
+    const fn = vi.fn().mockRejectedValue(transient());
+
+    const result = guard.run('claimChain', fn, controller.signal);
+    const assertion = expect(result).rejects.toBeInstanceOf(AbortError);
+    await vi.advanceTimersByTimeAsync(50);
+    controller.abort();
+    await assertion;
+
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('FaucetPool', () => {
+  function createPool(urls: string[], options?: ConstructorParameters<typeof FaucetPool>[1]) {
+    const pool = new FaucetPool(urls, { healthCheck: { enabled: false }, ...options });
+    pool.attach((url) => ({ url, free: vi.fn() }) as unknown as Faucet);
+    return pool;
+  }
+
+  const urlOf = (faucet: Faucet) => (faucet as unknown as { url: string }).url;
+
+  it('fails over to the next endpoint', async () => {
+    const pool = createPool(['https://primary', 'https://backup'], { retry: { ...retry, maxAttempts: 1 } });
+    const calls: string[] = [];
+
+    const result = await pool.run('claimChain', async (faucet) => {
+      calls.push(urlOf(faucet));
+      if (urlOf(faucet) === 'https://primary') throw new Error('primary is down');
+      return 'chain';
+    });
+
+    expect(result).toBe('chain');
+    expect(calls).toEqual(['https://primary', 'https://backup']);
+    expect(pool.getActiveUrl()).toBe('https://backup');
+  });
+
+  it('skips endpoints whose health probe fails', async () => {
+    const pool = createPool(['https://primary', 'https://backup'], {
+      healthCheck: { probe: async (url) => url === 'https://backup' },
+    });
+    const calls: string[] = [];
+
+    await pool.run('createWallet', async (faucet) => {
+      calls.push(urlOf(faucet));
+      return 'wallet';
+    });
+
+    expect(calls).toEqual(['https://backup']);
+  });
+
+  it('reports unavailability once every circuit is open', async () => {
+    const pool = createPool(['https://primary', 'https://backup'], {
+      retry: { ...retry, maxAttempts: 1 },
+      circuitBreaker: { failureThreshold: 1, cooldownMs: 60_000 },
+    });
+    const fn = vi.fn().mockRejectedValue(transient());
+
+    await expect(pool.run('claimChain', fn)).rejects.toBeInstanceOf(FaucetUnavailableError);
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(pool.getUnavailable()).not.toBeNull();
+  });
+
+  it('does not fail over once the signal aborts', async () => {
+    const pool = createPool(['https://primary', 'https://backup'], { retry: { ...retry, maxAttempts: 1 } });
+    const controller = new AbortController();
+    const calls: string[] = [];
+
+    const result = pool.run('claimChain', async (faucet) => {
+      calls.push(urlOf(faucet));
+      controller.abort();
+      throw transient();
+    }, controller.signal);
+
+    await expect(result).rejects.toBeInstanceOf(AbortError);
+    expect(calls).toEqual(['https://primary']);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Application } from '@linera/client';
+import { ApplicationClientImpl } from '../src/lib/linera/application-client';
+import { QueryCache } from '../src/lib/linera/query-cache';
+import { PendingMutationRegistry } from '../src/lib/linera/pending-mutations';
+import { DEFAULT_OPERATION_TIMEOUTS } from '../src/lib/linera/cancellation';
+import { MutationError, SignatureRejectedError } from '../src/lib/linera/errors';
+import type { OptimisticMutation, PendingMutation } from '../src/lib/linera/types';
+
+const MESSAGES = 'query { messages }';
+const SEND = 'mutation { send(text: "hi") }';
+
+function setup(mutate: () => Promise<unknown>) {
+  let messages = ['hello'];
+  const publicApp = {
+    query: vi.fn(async () => JSON.stringify({ data: { messages } })),
+  } as unknown as Application;
+  const walletApp = {
+    query: vi.fn(async () => {
+      const result = await mutate();
+      messages = [...messages, 'hi'];
+      return result;
+    }),
+  } as unknown as Application;
+
+  const queryCache = new QueryCache({ enabled: true });
+  const changes: PendingMutation[][] = [];
+  const pendingMutations = new PendingMutationRegistry({ queryCache, onChange: (pending) => changes.push(pending) });
+  const client = new ApplicationClientImpl(
+    'app', publicApp, walletApp, true, 'public-chain', 'wallet-chain', '0xowner', '0xpublic',
+    undefined, DEFAULT_OPERATION_TIMEOUTS, queryCache, pendingMutations
+  );
+
+  const readMessages = async () => (await client.public.query<{ messages: string[] }>({ query: MESSAGES })).data;
+  const optimistic: OptimisticMutation = {
+    data: 'hi',
+    updates: [{
+      query: MESSAGES,
+      update: (data) => ({ messages: [...(data as { messages: string[] }).messages, 'hi (pending)'] }),
+    }],
+  };
+
+  return { client, publicApp, pendingMutations, changes, readMessages, optimistic };
+}
+
+describe('optimistic mutations', () => {
+  it('patches cached queries while pending and refetches them on success', async () => {
+    let confirm!: () => void;
+    const { client, publicApp, pendingMutations, readMessages, optimistic } = setup(
+      () => new Promise((resolve) => {
+        confirm = () => resolve(JSON.stringify({ data: { send: true } }));
+      })
+    );
+    await readMessages();
+
+    const mutation = client.wallet!.mutate(SEND, { optimistic });
+    expect(await readMessages()).toEqual({ messages: ['hello', 'hi (pending)'] });
+    expect(pendingMutations.list()).toMatchObject([{ appId: 'app', chainId: 'wallet-chain', data: 'hi' }]);
+
+    confirm();
+    await mutation;
+    expect(await readMessages()).toEqual({ messages: ['hello', 'hi'] });
+    expect(pendingMutations.list()).toEqual([]);
+    expect(publicApp.query).toHaveBeenCalledTimes(2);
+  });
+
+  it('rolls back when the signature is rejected', async () => {
+    const { client, changes, readMessages, optimistic } = setup(() =>
+      Promise.reject(Object.assign(new Error('User rejected the request.'), { code: 4001 }))
+    );
+    await readMessages();
+
+    await expect(client.wallet!.mutate(SEND, { optimistic })).rejects.toBeInstanceOf(SignatureRejectedError);
+    expect(await readMessages()).toEqual({ messages: ['hello'] });
+    expect(changes.map((pending) => pending.length)).toEqual([1, 0]);
+  });
+
+  it('rolls back when the mutation fails', async () => {
+    const { client, publicApp, readMessages, optimistic } = setup(() => Promise.reject(new Error('block execution failed')));
+    await readMessages();
+
+    await expect(client.wallet!.mutate(SEND, { optimistic })).rejects.toBeInstanceOf(MutationError);
+    expect(await readMessages()).toEqual({ messages: ['hello'] });
+    // The cached result is kept: nothing changed on chain
+    expect(publicApp.query).toHaveBeenCalledTimes(1);
+  });
+
+  it('rolls back when the mutation returns GraphQL errors', async () => {
+    const { client, readMessages, optimistic, pendingMutations } = setup(() =>
+      Promise.resolve(JSON.stringify({ data: null, errors: [{ message: 'insufficient balance' }] }))
+    );
+    await readMessages();
+
+    await client.wallet!.mutate(SEND, { optimistic });
+    expect(await readMessages()).toEqual({ messages: ['hello'] });
+    expect(pendingMutations.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,198 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { QueryBatcher } from '../src/lib/linera/query-batcher';
+import { WasmRuntimeError } from '../src/lib/linera/errors';
+
+function request(query: string, variables?: Record<string, unknown>): string {
+  return JSON.stringify(variables ? { query, variables } : { query });
+}
+
+function parse(body: string): { query: string; variables?: Record<string, unknown> } {
+  return JSON.parse(body);
+}
+
+/**
+ * Batcher whose `send` answers with `respond` and records the requests
+ */
+function createBatcher(respond: (body: string) => unknown) {
+  const sent: string[] = [];
+  const send = vi.fn(async (body: string) => {
+    sent.push(body);
+    const response = respond(body);
+    if (response instanceof Error) throw response;
+    return JSON.stringify(response);
+  });
+  const batcher = new QueryBatcher({ enabled: true, maxBatchSize: 10, send });
+  return { batcher, send, sent };
+}
+
+describe('QueryBatcher', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('prefixes aliased and plain fields and splits the response back', async () => {
+    const { batcher, sent } = createBatcher(() => ({
+      data: {
+        b0_latest: { title: 'first' },
+        b0_count: 2,
+        b1_post: { title: 'second' },
+      },
+    }));
+
+    const first = batcher.load(request('{ latest: post(id: 1) { title } count }'));
+    const second = batcher.load(request('query Single { post(id: 2) { title } }'));
+    await vi.runAllTimersAsync();
+
+    expect(sent).toHaveLength(1);
+    expect(parse(sent[0]).query).toBe(
+      '{ b0_latest: post (id: 1) { title } b0_count: count b1_post: post (id: 2) { title } }'
+    );
+    expect(JSON.parse(await first)).toEqual({ data: { latest: { title: 'first' }, count: 2 } });
+    expect(JSON.parse(await second)).toEqual({ data: { post: { title: 'second' } } });
+  });
+
+  it('prefixes variables, keeping their types and defaults', async () => {
+    const { batcher, sent } = createBatcher(() => ({ data: { b0_post: null, b1_posts: [] } }));
+
+    batcher.load(request('query ($id: ID = "1") { post(id: $id) { title } }', { id: '5' }));
+    batcher.load(request('query ($id: ID!, $tags: [String!]! = ["a", "b"]) { posts(author: $id, tags: $tags) { id } }', { id: '7' }));
+    await vi.runAllTimersAsync();
+
+    const merged = parse(sent[0]);
+    expect(merged.query).toBe(
+      'query ($b0_id: ID = "1" $b1_id: ID! $b1_tags: [String!]! = ["a" "b"]) ' +
+      '{ b0_post: post (id: $b0_id) { title } b1_posts: posts (author: $b1_id tags: $b1_tags) { id } }'
+    );
+    expect(merged.variables).toEqual({ b0_id: '5', b1_id: '7' });
+  });
+
+  it('prefixes fragment definitions and spreads, but not inline fragment conditions', async () => {
+    const { batcher, sent } = createBatcher(() => ({
+      data: { b0_feed: [{ title: 'a', id: 1 }], b1_feed: [{ title: 'b', id: 2 }] },
+    }));
+    const query = '{ feed { ...PostFields ... on Post { id } } } fragment PostFields on Post { title }';
+
+    const first = batcher.load(request(query));
+    const second = batcher.load(request(`${query} `));
+    await vi.runAllTimersAsync();
+
+    expect(parse(sent[0]).query).toBe(
+      '{ b0_feed: feed { ... b0_PostFields ... on Post { id } } b1_feed: feed { ... b1_PostFields ... on Post { id } } }\n' +
+      'fragment b0_PostFields on Post { title }\n' +
+      'fragment b1_PostFields on Post { title }'
+    );
+    expect(JSON.parse(await first)).toEqual({ data: { feed: [{ title: 'a', id: 1 }] } });
+    expect(JSON.parse(await second)).toEqual({ data: { feed: [{ title: 'b', id: 2 }] } });
+  });
+
+  it('routes errors to the query owning their path', async () => {
+    const { batcher } = createBatcher(() => ({
+      data: { b0_post: null, b1_count: 3 },
+      errors: [{ message: 'not found', path: ['b0_post', 'title'], locations: [{ line: 1, column: 3 }] }],
+    }));
+
+    const failing = batcher.load(request('{ post(id: 9) { title } }'));
+    const succeeding = batcher.load(request('{ count }'));
+    await vi.runAllTimersAsync();
+
+    expect(JSON.parse(await failing)).toEqual({
+      data: { post: null },
+      errors: [{ message: 'not found', path: ['post', 'title'] }],
+    });
+    expect(JSON.parse(await succeeding)).toEqual({ data: { count: 3 } });
+  });
+
+  it('sends the queries one by one when an error has no path', async () => {
+    const { batcher, sent } = createBatcher((body) => {
+      const { query } = parse(body);
+      if (query.includes('b0_')) return { data: null, errors: [{ message: 'query too complex' }] };
+      return { data: query.includes('post') ? { post: { title: 'alone' } } : { count: 1 } };
+    });
+
+    const first = batcher.load(request('{ post(id: 1) { title } }'));
+    const second = batcher.load(request('{ count }'));
+    await vi.runAllTimersAsync();
+
+    expect(sent.slice(1)).toEqual([request('{ post(id: 1) { title } }'), request('{ count }')]);
+    expect(JSON.parse(await first)).toEqual({ data: { post: { title: 'alone' } } });
+    expect(JSON.parse(await second)).toEqual({ data: { count: 1 } });
+  });
+
+  it('sends the queries one by one when the batch fails', async () => {
+    const { batcher, send } = createBatcher((body) =>
+      parse(body).query.includes('b0_') ? new Error('request too large') : { data: { count: 1 } }
+    );
+
+    const results = [batcher.load(request('{ count }')), batcher.load(request('{ count total }'))];
+    await vi.runAllTimersAsync();
+
+    await expect(Promise.all(results)).resolves.toHaveLength(2);
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not resend the queries after a WASM runtime fault', async () => {
+    const fault = new WasmRuntimeError('RuntimeError: unreachable');
+    const { batcher, send } = createBatcher(() => fault);
+
+    const first = batcher.load(request('{ count }'));
+    const second = batcher.load(request('{ total }'));
+    const assertions = Promise.all([
+      expect(first).rejects.toBe(fault),
+      expect(second).rejects.toBe(fault),
+    ]);
+    await vi.runAllTimersAsync();
+
+    await assertions;
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('shares one slot between identical requests', async () => {
+    const { batcher, sent } = createBatcher(() => ({ data: { count: 1 } }));
+
+    const first = batcher.load(request('{ count }'));
+    const second = batcher.load(request('{ count }'));
+    await vi.runAllTimersAsync();
+
+    expect(sent).toEqual([request('{ count }')]);
+    expect(await first).toBe(await second);
+  });
+
+  it('sends requests that cannot be merged unchanged', async () => {
+    const { batcher, sent } = createBatcher(() => ({ data: {} }));
+    const unmergeable = [
+      request('mutation { send }'),
+      request('query A { a } query B { b }'),
+      request('{ ...Fields } fragment Fields on Query { a }'),
+      'not json',
+    ];
+
+    unmergeable.forEach((body) => void batcher.load(body));
+    await vi.runAllTimersAsync();
+
+    expect(sent).toEqual(unmergeable);
+  });
+
+  it('batches separately per query options and caps the batch size', async () => {
+    const sent: string[] = [];
+    const batcher = new QueryBatcher({
+      enabled: true,
+      maxBatchSize: 2,
+      send: async (body) => {
+        sent.push(body);
+        return JSON.stringify({ data: {} });
+      },
+    });
+
+    batcher.load(request('{ a }'));
+    batcher.load(request('{ b }'));
+    batcher.load(request('{ c }'), { blockHash: 'hash' });
+    batcher.load(request('{ d }'));
+    await vi.runAllTimersAsync();
+
+    expect(sent.map((body) => parse(body).query)).toEqual(['{ b0_a: a b1_b: b }', '{ c }', '{ d }']);
+  });
+});
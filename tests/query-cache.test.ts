@@ -0,0 +1,211 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { QueryCache, type QueryCacheKey } from '../src/lib/linera/query-cache';
+
+const key: QueryCacheKey = { appId: 'app', chainId: 'chain', query: 'query { messages }' };
+
+function response(data: unknown): string {
+  return JSON.stringify({ data });
+}
+
+function dataOf(result: unknown): unknown {
+  return JSON.parse(result as string).data;
+}
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((resolvePromise) => {
+    resolve = resolvePromise;
+  });
+  return { promise, resolve };
+}
+
+describe('QueryCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keys results independently of the variable order', async () => {
+    const cache = new QueryCache({ enabled: true });
+    const load = vi.fn().mockResolvedValue(response({ count: 1 }));
+
+    await cache.fetch({ ...key, variables: { a: 1, b: { c: 2, d: 3 } } }, load);
+    await cache.fetch({ ...key, variables: { b: { d: 3, c: 2 }, a: 1 } }, load);
+    expect(load).toHaveBeenCalledTimes(1);
+
+    await cache.fetch({ ...key, variables: { a: 2, b: { c: 2, d: 3 } } }, load);
+    await cache.fetch({ ...key, chainId: 'other' }, load);
+    expect(load).toHaveBeenCalledTimes(3);
+  });
+
+  it('shares identical in-flight queries', async () => {
+    const cache = new QueryCache({ enabled: true });
+    const pending = deferred<unknown>();
+    const load = vi.fn(() => pending.promise);
+
+    const first = cache.fetch(key, load);
+    const second = cache.fetch(key, load);
+    pending.resolve(response({ count: 1 }));
+
+    await expect(Promise.all([first, second])).resolves.toEqual([response({ count: 1 }), response({ count: 1 })]);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves stale results while refetching them in the background', async () => {
+    const cache = new QueryCache({ enabled: true, ttlMs: 1_000, staleWhileRevalidateMs: 5_000 });
+    const refetch = deferred<unknown>();
+    const load = vi.fn()
+      .mockResolvedValueOnce(response({ count: 1 }))
+      .mockReturnValueOnce(refetch.promise);
+
+    await cache.fetch(key, load);
+
+    // Fresh
+    vi.advanceTimersByTime(999);
+    await expect(cache.fetch(key, load)).resolves.toBe(response({ count: 1 }));
+    expect(load).toHaveBeenCalledTimes(1);
+
+    // Stale: served immediately, refetched once
+    vi.advanceTimersByTime(1);
+    await expect(cache.fetch(key, load)).resolves.toBe(response({ count: 1 }));
+    await expect(cache.fetch(key, load)).resolves.toBe(response({ count: 1 }));
+    expect(load).toHaveBeenCalledTimes(2);
+
+    refetch.resolve(response({ count: 2 }));
+    await vi.advanceTimersByTimeAsync(0);
+    await expect(cache.fetch(key, load)).resolves.toBe(response({ count: 2 }));
+    expect(cache.getStats()).toMatchObject({ hits: 2, staleHits: 2, misses: 1, revalidations: 1 });
+  });
+
+  it('waits for a new result once the stale window has passed', async () => {
+    const cache = new QueryCache({ enabled: true, ttlMs: 1_000, staleWhileRevalidateMs: 1_000 });
+    const load = vi.fn()
+      .mockResolvedValueOnce(response({ count: 1 }))
+      .mockResolvedValueOnce(response({ count: 2 }));
+
+    await cache.fetch(key, load);
+    vi.advanceTimersByTime(2_000);
+
+    await expect(cache.fetch(key, load)).resolves.toBe(response({ count: 2 }));
+    expect(cache.getStats()).toMatchObject({ staleHits: 0, misses: 2 });
+  });
+
+  it('does not cache responses with GraphQL errors', async () => {
+    const cache = new QueryCache({ enabled: true });
+    const load = vi.fn().mockResolvedValue(JSON.stringify({ data: null, errors: [{ message: 'boom' }] }));
+
+    await cache.fetch(key, load);
+    await cache.fetch(key, load);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('marks the results of a chain stale on a new block', async () => {
+    const onBlocks = new Map<string, () => void>();
+    const unsubscribe = vi.fn();
+    const subscribeNewBlocks = vi.fn((chainId: string, onBlock: () => void) => {
+      onBlocks.set(chainId, onBlock);
+      return unsubscribe;
+    });
+    const cache = new QueryCache({ enabled: true, ttlMs: 60_000, subscribeNewBlocks });
+    const load = vi.fn()
+      .mockResolvedValueOnce(response({ count: 1 }))
+      .mockResolvedValueOnce(response({ count: 2 }));
+
+    await cache.fetch(key, load);
+    expect(subscribeNewBlocks).toHaveBeenCalledWith('chain', expect.any(Function));
+
+    onBlocks.get('chain')?.();
+
+    // Served stale once, then the refetched result
+    await expect(cache.fetch(key, load)).resolves.toBe(response({ count: 1 }));
+    await vi.advanceTimersByTimeAsync(0);
+    await expect(cache.fetch(key, load)).resolves.toBe(response({ count: 2 }));
+    expect(load).toHaveBeenCalledTimes(2);
+
+    cache.clear();
+    expect(unsubscribe).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not cache a response loaded before a new block', async () => {
+    let onBlock: () => void = () => undefined;
+    const cache = new QueryCache({
+      enabled: true,
+      subscribeNewBlocks: (_chainId, callback) => {
+        onBlock = callback;
+        return () => undefined;
+      },
+    });
+    await cache.fetch({ ...key, query: 'query { other }' }, () => Promise.resolve(response({})));
+
+    const pending = deferred<unknown>();
+    const load = vi.fn(() => pending.promise);
+    const result = cache.fetch(key, load);
+    onBlock();
+    pending.resolve(response({ count: 1 }));
+    await result;
+
+    await cache.fetch(key, () => Promise.resolve(response({ count: 2 })));
+    expect(cache.getStats().misses).toBe(3);
+  });
+
+  it('drops the results of an application on invalidate()', async () => {
+    const cache = new QueryCache({ enabled: true });
+    const load = vi.fn().mockResolvedValue(response({}));
+
+    await cache.fetch(key, load);
+    await cache.fetch({ ...key, query: 'query { balance }' }, load);
+    await cache.fetch({ ...key, appId: 'other' }, load);
+
+    expect(cache.invalidate('app', /balance/)).toBe(1);
+    expect(cache.invalidate('app')).toBe(1);
+    expect(cache.getStats().size).toBe(1);
+  });
+
+  describe('optimistic layers', () => {
+    const append = (data: unknown) => ({ messages: [...(data as { messages: string[] }).messages, 'pending'] });
+
+    it('patches matching results on read and rolls them back', async () => {
+      const onChange = vi.fn();
+      const cache = new QueryCache({ enabled: true, onChange });
+      const load = vi.fn().mockResolvedValue(response({ messages: ['hello'] }));
+      await cache.fetch(key, load);
+
+      cache.addOptimistic(1, [{ appId: 'app', query: key.query, update: append }]);
+      expect(dataOf(await cache.fetch(key, load))).toEqual({ messages: ['hello', 'pending'] });
+      expect(onChange).toHaveBeenLastCalledWith({ appId: 'app', queries: [key.query], reason: 'optimistic' });
+
+      cache.settleOptimistic(1, false);
+      await expect(cache.fetch(key, load)).resolves.toBe(response({ messages: ['hello'] }));
+      expect(onChange).toHaveBeenLastCalledWith({ appId: 'app', queries: [key.query], reason: 'rollback' });
+      expect(load).toHaveBeenCalledTimes(1);
+    });
+
+    it('only patches the variables it targets', async () => {
+      const cache = new QueryCache({ enabled: true });
+      const load = vi.fn().mockResolvedValue(response({ messages: [] }));
+      const room1 = { ...key, variables: { room: 1 } };
+      const room2 = { ...key, variables: { room: 2 } };
+
+      cache.addOptimistic(1, [{ appId: 'app', query: key.query, variables: { room: 1 }, update: append }]);
+      expect(dataOf(await cache.fetch(room1, load))).toEqual({ messages: ['pending'] });
+      await expect(cache.fetch(room2, load)).resolves.toBe(response({ messages: [] }));
+    });
+
+    it('refetches the patched results on commit', async () => {
+      const cache = new QueryCache({ enabled: true });
+      const load = vi.fn()
+        .mockResolvedValueOnce(response({ messages: ['hello'] }))
+        .mockResolvedValueOnce(response({ messages: ['hello', 'sent'] }));
+      await cache.fetch(key, load);
+
+      cache.addOptimistic(1, [{ appId: 'app', query: key.query, update: append }]);
+      cache.settleOptimistic(1, true);
+
+      await expect(cache.fetch(key, load)).resolves.toBe(response({ messages: ['hello', 'sent'] }));
+      expect(load).toHaveBeenCalledTimes(2);
+    });
+  });
+});
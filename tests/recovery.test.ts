@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { isWasmRuntimeError } from '../src/lib/linera/recovery';
+import { WasmRuntimeError } from '../src/lib/linera/errors';
+
+describe('isWasmRuntimeError', () => {
+  it('classifies WASM traps as runtime faults', () => {
+    expect(isWasmRuntimeError(new Error('RuntimeError: unreachable'))).toBe(true);
+    expect(isWasmRuntimeError(new Error('RuntimeError: unreachable executed'))).toBe(true);
+    expect(isWasmRuntimeError(new WebAssembly.RuntimeError('unreachable'))).toBe(true);
+    expect(isWasmRuntimeError(Object.assign(new Error('unreachable'), { name: 'RuntimeError' }))).toBe(true);
+    expect(isWasmRuntimeError(new Error('memory access out of bounds'))).toBe(true);
+    expect(isWasmRuntimeError(new WasmRuntimeError('crashed'))).toBe(true);
+  });
+
+  it('classifies WASM out-of-memory errors as runtime faults', () => {
+    expect(isWasmRuntimeError(new RangeError('WebAssembly.Memory.grow(): Maximum memory size exceeded'))).toBe(true);
+    expect(isWasmRuntimeError(new RangeError('WebAssembly.Memory(): could not allocate memory'))).toBe(true);
+    expect(isWasmRuntimeError(new RangeError('Out of memory: Cannot allocate Wasm memory for new instance'))).toBe(true);
+    expect(isWasmRuntimeError(new Error('memory allocation of 1048576 bytes failed'))).toBe(true);
+
+    let growError: unknown;
+    try {
+      new WebAssembly.Memory({ initial: 1, maximum: 1 }).grow(1);
+    } catch (error) {
+      growError = error;
+    }
+    expect(isWasmRuntimeError(growError)).toBe(true);
+  });
+
+  it('does not classify other memory errors as runtime faults', () => {
+    expect(isWasmRuntimeError(new Error('Server out of memory, retry later'))).toBe(false);
+    expect(isWasmRuntimeError(new RangeError('Invalid array length'))).toBe(false);
+  });
+
+  it('follows the cause chain', () => {
+    const fault = new Error('RuntimeError: unreachable');
+    expect(isWasmRuntimeError(Object.assign(new Error('Query failed'), { cause: fault }))).toBe(true);
+  });
+
+  it('does not classify network "unreachable" errors as runtime faults', () => {
+    expect(isWasmRuntimeError(new Error('faucet unreachable'))).toBe(false);
+    expect(isWasmRuntimeError(new Error('validator unreachable: connection refused'))).toBe(false);
+    expect(isWasmRuntimeError(new TypeError('Failed to fetch: host unreachable'))).toBe(false);
+    expect(isWasmRuntimeError(new Error('Unknown RuntimeError in response'))).toBe(false);
+  });
+});
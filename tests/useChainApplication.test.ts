@@ -0,0 +1,115 @@
+// @vitest-environment happy-dom
+import { describe, expect, it, vi } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import type { Application } from '@linera/client';
+import { ChainApplicationClient } from '../src/lib/linera/application-client';
+import { ChainNotOwnedError } from '../src/lib/linera/errors';
+import { ClientMode, type ClientState } from '../src/lib/linera/types';
+
+const CHAIN_ID = 'chain';
+const APP_ID = 'app';
+const OWNER = '0xowner';
+
+/**
+ * Client whose applications fail like freed WASM objects once the client is freed
+ */
+function createFakeClient(name: string) {
+  const client = {
+    name,
+    freed: false,
+    application(): Application {
+      return {
+        query: async (request: string) => {
+          if (client.freed) throw new Error('null pointer passed to rust');
+          return JSON.stringify({ data: { client: name, request } });
+        },
+      } as unknown as Application;
+    },
+  };
+  return client;
+}
+
+const fake = vi.hoisted(() => ({ manager: null as unknown }));
+
+vi.mock('../src/lib/linera/client-manager', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/lib/linera/client-manager')>()),
+  getLineraClientManager: () => fake.manager,
+}));
+
+// Imported after the mock
+const { useChainApplication } = await import('../src/hooks/useChainApplication');
+
+function createFakeManager() {
+  const publicClient = createFakeClient('public');
+  let walletClient: ReturnType<typeof createFakeClient> | null = null;
+  let state: ClientState = { mode: ClientMode.READ_ONLY, isInitialized: true, hasWallet: false, publicChainId: 'public-chain' };
+  const listeners = new Set<(state: ClientState) => void>();
+  const setState = (next: Partial<ClientState>) => {
+    state = { ...state, ...next };
+    listeners.forEach((listener) => listener(state));
+  };
+
+  const manager = {
+    getState: () => state,
+    onStateChange: (listener: (state: ClientState) => void) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    getPublicClient: () => publicClient,
+    getWalletClient: () => walletClient,
+    getWallet: () => null,
+    canWrite: () => state.hasWallet,
+    getApplication: async () => null,
+    pinChain: () => () => undefined,
+    // The wallet owns the chain: its client signs mutations
+    getChainApplication: vi.fn(async (chainId: string, appId: string) => {
+      const client = walletClient ?? publicClient;
+      return new ChainApplicationClient(appId, client.application(), chainId, {
+        owners: [OWNER],
+        signer: walletClient ? OWNER : null,
+      });
+    }),
+
+    connectWallet() {
+      walletClient = createFakeClient('wallet');
+      setState({ mode: ClientMode.FULL, hasWallet: true, walletAddress: OWNER, walletChainId: CHAIN_ID });
+    },
+
+    disconnectWallet() {
+      if (walletClient) walletClient.freed = true;
+      walletClient = null;
+      setState({ mode: ClientMode.READ_ONLY, hasWallet: false, walletAddress: undefined, walletChainId: undefined });
+    },
+  };
+  return manager;
+}
+
+describe('useChainApplication', () => {
+  it('reloads the app when the wallet connects and disconnects', async () => {
+    const manager = createFakeManager();
+    fake.manager = manager;
+
+    const { result } = renderHook(() => useChainApplication(CHAIN_ID, APP_ID));
+    await waitFor(() => expect(result.current.isReady).toBe(true));
+
+    // Not owned by a local signer yet
+    expect(result.current.app?.canMutate()).toBe(false);
+    await expect(result.current.app!.mutate('mutation { increment }')).rejects.toBeInstanceOf(ChainNotOwnedError);
+
+    // Connect -> mutate through the wallet client
+    act(() => manager.connectWallet());
+    await waitFor(() => expect(result.current.app?.canMutate()).toBe(true));
+    await expect(result.current.app!.mutate<string>('mutation { increment }')).resolves.toContain('"client":"wallet"');
+
+    // Disconnect -> query through the public client, never the freed wallet client
+    const walletApp = result.current.app!;
+    act(() => manager.disconnectWallet());
+    await waitFor(() => expect(result.current.app?.canMutate()).toBe(false));
+    expect(result.current.isReady).toBe(true);
+    await expect(result.current.app!.query<string>('{ value }')).resolves.toContain('"client":"public"');
+
+    // The app bound before the change is aborted rather than reaching the freed client
+    await expect(walletApp.query('{ value }')).rejects.toMatchObject({ name: 'AbortError' });
+    expect(manager.getChainApplication).toHaveBeenCalledTimes(3);
+  });
+});